@@ -12,13 +12,476 @@ export interface LoggerInterface {
 export interface KacheInterface {
     get(key: string): unknown;
     set(key: string, newItem: unknown, expirationTime: number): void;
+    delete(key: string): boolean;
+    clear(): void;
+    has(key: string): boolean;
+    keys(): Array<string>;
 }
 
+export interface KacheStorage {
+    [key: string]: {
+        expiration: number;
+        comment: string;
+        item: unknown;
+    };
+}
+
+export interface KacheBackend {
+    load(): KacheStorage | null;
+    save(storage: KacheStorage): void;
+    remove(): void;
+}
+
+export interface KacheOptions {
+    backend?: KacheBackend;
+    path?: string;
+    maxEntries?: number;
+    sweepIntervalMs?: number;
+    writeDelayMs?: number;
+}
+
+export declare class MemoryKacheBackend implements KacheBackend {
+    load(): KacheStorage | null;
+    save(storage: KacheStorage): void;
+    remove(): void;
+}
+
+export declare class FileKacheBackend implements KacheBackend {
+    constructor(logger: LoggerInterface, filePath: string);
+    load(): KacheStorage | null;
+    save(storage: KacheStorage): void;
+    remove(): void;
+}
+
+export declare class Kache implements KacheInterface {
+    constructor(logger: LoggerInterface, cacheName: string, options?: KacheOptions);
+    get(key: string): unknown;
+    set(key: string, newItem: unknown, expirationTime: number): void;
+    delete(key: string): boolean;
+    clear(): void;
+    has(key: string): boolean;
+    keys(): Array<string>;
+    sweep(): number;
+    flush(): void;
+    close(): void;
+}
+
+export declare const NO_EVENT: string;
+
+export declare class SunMoonSchemaError extends Error {
+    problems: Array<string>;
+    constructor(source: string, problems: Array<string>);
+}
+
+export declare function normalizeSunMoonJson(raw: unknown, source: string): SunMoonJson;
+
 export interface ImageWriterInterface {
     saveFile(fileName: string, buf: Buffer): void;
 }
 
+export type SunState = "normal" | "always-up" | "twilight-only" | "always-down";
+
+export interface SunMoonJson {
+    current_time: string;
+    date: string;
+    sunrise: string;
+    sunset: string;
+    sun_status?: string;
+    solar_noon: string;
+    day_length?: string;
+    sun_altitude?: number;
+    sun_distance?: number;
+    sun_azimuth?: number;
+    moonrise: string;
+    moonset: string;
+    moon_status?: string;
+    moon_altitude?: number;
+    moon_distance?: number;
+    moon_azimuth?: number;
+    moon_parallactic_angle?: number;
+    sunState?: SunState;
+    firstLight?: string;
+    lastLight?: string;
+    civilDawn?: string;
+    civilDusk?: string;
+    nauticalDawn?: string;
+    nauticalDusk?: string;
+    astronomicalDawn?: string;
+    astronomicalDusk?: string;
+    lunarAgeDays?: number;
+    lunarIllumination?: string;
+    lunarIlluminationFraction?: number;
+    lunarPhaseAngle?: number;
+    lunarBrightLimbAngle?: number;
+    lunarWaxWane?: string;
+    lunarPhase?: string;
+    nextNewMoon?: string;
+    nextFirstQuarter?: string;
+    nextFullMoon?: string;
+    nextLastQuarter?: string;
+    provider?: string;
+    timeZone?: string;
+    stale?: boolean;
+}
+
+export interface AstronomyProviderInterface {
+    name: string;
+    getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null>;
+}
+
+export interface ApiClientOptions {
+    timeout?: number;
+    deadline?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    budget?: number;
+    budgetPeriodMs?: number;
+}
+
+export interface IpGeolocationOptions extends ApiClientOptions {
+    baseUrl?: string;
+}
+
+export declare class ApiError extends Error {
+    status: number | null;
+    constructor(message: string, status?: number | null);
+}
+
+export declare class ApiAuthError extends ApiError {
+    constructor(message: string, status?: number | null);
+}
+
+export declare class ApiQuotaError extends ApiError {
+    retryAfterMs: number | null;
+    constructor(message: string, status?: number | null, retryAfterMs?: number | null);
+}
+
+export declare class ApiTransientError extends ApiError {
+    constructor(message: string, status?: number | null);
+}
+
+export declare class RequestBudget {
+    static take(key: string, limit: number, periodMs: number): number;
+    static reset(key?: string): void;
+}
+
+export declare class IpGeolocationProvider implements AstronomyProviderInterface {
+    name: string;
+    constructor(logger: LoggerInterface, apiKey: string, timeout?: number, options?: IpGeolocationOptions);
+    getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null>;
+}
+
+export declare class LocalAstronomyProvider implements AstronomyProviderInterface {
+    name: string;
+    constructor(logger: LoggerInterface);
+    getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null>;
+}
+
+export declare class AstronomyProviderChain implements AstronomyProviderInterface {
+    name: string;
+    constructor(logger: LoggerInterface, providers: Array<AstronomyProviderInterface>, timeout?: number);
+    getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null>;
+}
+
+export interface ThemeColors {
+    backgroundColor: string;
+    circleColor: string;
+    timeLabelColor: string;
+    tickColor: string;
+    sunCircleColor: string;
+    sunArcColor: string;
+    sunUpColor: string;
+    sunDownColor: string;
+    civilTwilightArcColor: string;
+    nauticalTwilightArcColor: string;
+    astroTwilightArcColor: string;
+    moonArcColor: string;
+    moonUpColor: string;
+    moonDownColor: string;
+    moonLitColor: string;
+    moonDarkColor: string;
+    moonOutlineColor: string;
+    moonLabelColor: string;
+    titleColor: string;
+    labelColor: string;
+}
+
+export interface ThemeFonts {
+    titleFontFamily: string;
+    textFontFamily: string;
+    largeFontSize: number;
+    mediumFontSize: number;
+    smallFontSize: number;
+    extraSmallFontSize: number;
+}
+
+export interface ThemeLayout {
+    sunCircleRadius: number;
+    moonCircleRadius: number;
+    sunArcWidth: number;
+    moonArcWidth: number;
+    sunRadius: number;
+    moonRadius: number;
+    centerMoonRadius: number;
+}
+
+export interface Theme {
+    name: string;
+    colors: ThemeColors;
+    fonts: ThemeFonts;
+    layout: ThemeLayout;
+}
+
+export interface ThemeFile {
+    name?: string;
+    base?: string;
+    colors?: Partial<ThemeColors>;
+    fonts?: Partial<ThemeFonts>;
+    layout?: Partial<ThemeLayout>;
+}
+
+export declare class ThemeError extends Error {
+    constructor(message: string);
+}
+
+export declare function getTheme(theme?: Theme | string): Theme;
+export declare function getThemeNames(): Array<string>;
+export declare function loadTheme(fileName: string): Theme;
+
+export interface LocaleLabels {
+    title: string;
+    sunrise: string;
+    sunset: string;
+    civilDawn: string;
+    civilDusk: string;
+    nauticalDawn: string;
+    nauticalDusk: string;
+    astronomicalDawn: string;
+    astronomicalDusk: string;
+    midnightSun: string;
+    sunUpAllDay: string;
+    polarNight: string;
+    twilightOnly: string;
+    sunDownAllDay: string;
+    moonrise: string;
+    moonset: string;
+    noEvent: string;
+    staleData: string;
+    am: string;
+    pm: string;
+}
+
+export interface LocalePhases {
+    newMoon: string;
+    waxingCrescent: string;
+    firstQuarter: string;
+    waxingGibbous: string;
+    fullMoon: string;
+    waningGibbous: string;
+    lastQuarter: string;
+    waningCrescent: string;
+}
+
+export interface Locale {
+    name: string;
+    dateLocale: string;
+    dateFormat: string;
+    hour12: boolean;
+    labels: LocaleLabels;
+    phases: LocalePhases;
+}
+
+export interface LocaleFile {
+    name?: string;
+    base?: string;
+    dateLocale?: string;
+    dateFormat?: string;
+    hour12?: boolean;
+    labels?: Partial<LocaleLabels>;
+    phases?: Partial<LocalePhases>;
+}
+
+export declare class LocaleError extends Error {
+    constructor(message: string);
+}
+
+export declare function getLocale(locale?: Locale | string): Locale;
+export declare function loadLocale(fileName: string): Locale;
+export declare function getLocaleNames(): Array<string>;
+export declare function getPhaseName(locale: Locale, phase: string | undefined): string;
+
+export type FontSources = {[family: string]: string | Buffer};
+
+export declare class FontError extends Error {
+    family: string;
+    constructor(family: string, message: string);
+}
+
+export declare function getBundledFontNames(): Array<string>;
+
+export type Orientation = "landscape" | "portrait";
+
+export type ImageFormat = "jpg" | "png" | "rgba" | "svg";
+
+export interface EncodedImage {
+    data: Buffer;
+    width: number;
+    height: number;
+}
+
+export interface ImageResult {
+    imageType: ImageFormat;
+    imageData: EncodedImage | null;
+}
+
+export interface ImageOptions {
+    theme?: Theme | string;
+    width?: number;
+    height?: number;
+    orientation?: Orientation;
+    format?: ImageFormat;
+    jpegQuality?: number;
+    instant?: Date | number | string;
+    clock?: boolean;
+    locale?: Locale | string;
+    hour12?: boolean;
+    fonts?: FontSources;
+}
+
+export declare const SUN_MOON_EXPORT_VERSION: number;
+
+export type DataFormat = "json" | "csv";
+
+export interface SunMoonExport {
+    version: number;
+    generated: string;
+    provider: string | null;
+    stale: boolean;
+    location: {
+        name: string;
+        lat: number;
+        lon: number;
+        timeZone: string;
+    };
+    date: string;
+    sun: {
+        state: SunState | null;
+        sunrise: string | null;
+        sunset: string | null;
+        solarNoon: string | null;
+        dayLengthMinutes: number | null;
+        firstLight: string | null;
+        lastLight: string | null;
+        civilDawn: string | null;
+        civilDusk: string | null;
+        nauticalDawn: string | null;
+        nauticalDusk: string | null;
+        astronomicalDawn: string | null;
+        astronomicalDusk: string | null;
+        altitude: number | null;
+        azimuth: number | null;
+        distanceKm: number | null;
+    };
+    moon: {
+        moonrise: string | null;
+        moonset: string | null;
+        altitude: number | null;
+        azimuth: number | null;
+        distanceKm: number | null;
+        parallacticAngle: number | null;
+        ageDays: number | null;
+        illumination: number | null;
+        phaseAngle: number | null;
+        brightLimbAngle: number | null;
+        waxWane: string | null;
+        phase: string | null;
+        nextNewMoon: string | null;
+        nextFirstQuarter: string | null;
+        nextFullMoon: string | null;
+        nextLastQuarter: string | null;
+    };
+    positionTime: string | null;
+}
+
+export declare function toSunMoonExport(location: string, lat: string, lon: string, timeZone: string, sunMoonJson: SunMoonJson): SunMoonExport;
+export declare function formatSunMoonExport(sunMoonExport: SunMoonExport, format: DataFormat): string;
+
+export interface CreateOptions extends ImageOptions {
+    dataFormats?: Array<DataFormat>;
+}
+
+export type PosterPeriod = "month" | "year";
+
+export declare class SunMoonPoster {
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>);
+    getImage(location: string, lat: string, lon: string, apiKey: string, timeZone: string, period: string, options?: ImageOptions): Promise<ImageResult | null>;
+}
+
+export type TimeLapseAnimation = "apng" | "frames";
+
+export interface TimeLapseOptions extends ImageOptions {
+    intervalMinutes?: number;
+    frameDelayMs?: number;
+    animation?: TimeLapseAnimation;
+}
+
+export interface TimeLapseResult {
+    imageType: ImageFormat;
+    animated: EncodedImage | null;
+    frames: Array<EncodedImage>;
+    instants: Array<Date>;
+}
+
+export declare class SunMoonTimeLapse {
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>);
+    getTimeLapse(location: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr?: string, options?: TimeLapseOptions): Promise<TimeLapseResult | null>;
+}
+
+export type CalendarEventType = "sun" | "twilight" | "moon" | "phases";
+
+export interface CalendarOptions {
+    events?: Array<CalendarEventType>;
+}
+
+export declare class SunMoonCalendar {
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>);
+    getCalendar(location: string, lat: string, lon: string, apiKey: string, timeZone: string, startDate: string, endDate: string, options?: CalendarOptions): Promise<string | null>;
+}
+
+export interface BatchJob {
+    location: string;
+    fileName: string;
+    lat: string;
+    lon: string;
+    timeZone: string;
+    date?: string;
+    options?: CreateOptions;
+}
+
+export interface BatchJobResult {
+    job: BatchJob;
+    success: boolean;
+    fileName: string | null;
+    error: string | null;
+    durationMs: number;
+    bytesWritten: number;
+    dataFileNames: Array<string>;
+}
+
 export declare class SunMoonBuilder {
-    constructor(logger: LoggerInterface, cache: KacheInterface, writer: ImageWriterInterface);
-    CreateImages(name: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr: string): Promise<boolean>
+    constructor(logger: LoggerInterface, cache: KacheInterface, writer: ImageWriterInterface, providers?: Array<AstronomyProviderInterface>);
+    CreateImages(name: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr: string, options?: CreateOptions): Promise<boolean>
+    CreatePoster(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, period: string, options?: ImageOptions): Promise<boolean>
+    CreateTimeLapse(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr: string, options?: TimeLapseOptions): Promise<number>
+    CreateCalendar(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, startDate: string, endDate: string, options?: CalendarOptions): Promise<boolean>
+    GetSunMoonData(lat: string, lon: string, apiKey: string, timeZone: string, dateStr: string, instant?: Date): Promise<SunMoonJson | null>
+    PrefetchSunMoonData(lat: string, lon: string, apiKey: string, timeZone: string, days: number, startDate?: string): Promise<number>
+    CreateImagesBatch(jobs: Array<BatchJob>, apiKey: string, concurrency?: number): Promise<Array<BatchJobResult>>
+}
+
+export declare class SunMoonServer {
+    constructor(logger: LoggerInterface, cache: KacheInterface, apiKey: string, providers?: Array<AstronomyProviderInterface>);
+    listen(port?: number, host?: string): Promise<number>;
+    close(): Promise<void>;
 }
\ No newline at end of file
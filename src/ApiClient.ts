@@ -0,0 +1,273 @@
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from "axios";
+import { LoggerInterface } from "./Logger";
+
+export interface ApiClientOptions {
+    timeout?: number;                // Time in ms for each attempt, default 20000
+    deadline?: number;               // Time in ms for all the attempts and waits together, default 18000
+    maxRetries?: number;             // Attempts after the first, default 3
+    baseDelayMs?: number;            // Wait before the first retry, doubled for each one after, default 500
+    maxDelayMs?: number;             // Longest wait between attempts, default 8000
+    budget?: number;                 // Requests allowed per key in budgetPeriodMs, default 1000 (the free ipgeolocation plan), 0 for no limit
+    budgetPeriodMs?: number;         // Default 24 hours
+}
+
+/**
+ * Request to an astronomy API that failed and will not succeed if it is simply sent again
+ */
+export class ApiError extends Error {
+    public status: number | null;   // HTTP status, null if there was no response
+
+    constructor(message: string, status: number | null = null) {
+        super(message);
+        this.name = "ApiError";
+        this.status = status;
+    }
+}
+
+/**
+ * The API rejected the key (401 or 403)
+ */
+export class ApiAuthError extends ApiError {
+    constructor(message: string, status: number | null = null) {
+        super(message, status);
+        this.name = "ApiAuthError";
+    }
+}
+
+/**
+ * Too many requests: the API returned 429 or the key's request budget is used up
+ */
+export class ApiQuotaError extends ApiError {
+    public retryAfterMs: number | null;   // When the API or the budget allows another request, if known
+
+    constructor(message: string, status: number | null = null, retryAfterMs: number | null = null) {
+        super(message, status);
+        this.name = "ApiQuotaError";
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+/**
+ * Timeout, network failure or a 5xx that was still failing after the retries
+ */
+export class ApiTransientError extends ApiError {
+    constructor(message: string, status: number | null = null) {
+        super(message, status);
+        this.name = "ApiTransientError";
+    }
+}
+
+/**
+ * Counts the requests made with each key over a sliding period.  Shared by all the ApiClients in the process
+ * so two providers with the same key do not each use the whole budget.
+ */
+export class RequestBudget {
+    private static requests = new Map<string, Array<number>>();
+
+    /**
+     * Use one request from the budget for the key
+     * @param key API key, or another name for what the budget applies to
+     * @param limit Requests allowed in the period, 0 for no limit
+     * @param periodMs Length of the period
+     * @returns 0 if the request may be made, otherwise the ms until the oldest request leaves the period
+     */
+    public static take(key: string, limit: number, periodMs: number): number {
+        if (limit <= 0) {
+            return 0;
+        }
+
+        const now = Date.now();
+        const times = (RequestBudget.requests.get(key) ?? []).filter((time) => time > now - periodMs);
+        RequestBudget.requests.set(key, times);
+        if (times.length >= limit) {
+            return times[0] + periodMs - now;
+        }
+
+        times.push(now);
+        return 0;
+    }
+
+    /**
+     * Forget the requests made with a key, or with every key
+     */
+    public static reset(key?: string): void {
+        if (key === undefined) {
+            RequestBudget.requests.clear();
+        } else {
+            RequestBudget.requests.delete(key);
+        }
+    }
+}
+
+/**
+ * GETs JSON from an API with retries
+ * - Timeouts, network failures, 5xx and 429 are retried with exponential backoff and full jitter
+ * - A Retry-After header (seconds or a date) is waited for instead, if it is within maxDelayMs
+ * - Each attempt counts against the key's RequestBudget
+ * - An aborted signal stops the request and any retries, so a caller that gave up does not use the budget
+ * - Failures are thrown as ApiAuthError, ApiQuotaError, ApiTransientError or ApiError
+ */
+export class ApiClient {
+    private logger: LoggerInterface;
+    private name: string;
+    private timeout: number;
+    private deadline: number;
+    private maxRetries: number;
+    private baseDelayMs: number;
+    private maxDelayMs: number;
+    private budget: number;
+    private budgetPeriodMs: number;
+
+    /**
+     * Constructor for ApiClient
+     * @param logger Object that implements the LoggerInterface
+     * @param name Name for the log and error messages (e.g.: "ipgeolocation")
+     * @param options Optional timeouts, retry and budget limits
+     */
+    constructor(logger: LoggerInterface, name: string, options: ApiClientOptions = {}) {
+        this.logger = logger;
+        this.name = name;
+        this.timeout = options.timeout ?? 20000;
+        this.deadline = options.deadline ?? 18000;
+        this.maxRetries = options.maxRetries ?? 3;
+        this.baseDelayMs = options.baseDelayMs ?? 500;
+        this.maxDelayMs = options.maxDelayMs ?? 8000;
+        this.budget = options.budget ?? 1000;
+        this.budgetPeriodMs = options.budgetPeriodMs ?? 24 * 60 * 60 * 1000;
+    }
+
+    /**
+     * GET a JSON document
+     * @param url URL to get
+     * @param key Key the request budget is counted against
+     * @param signal Optional signal to abort the request and stop retrying
+     * @returns The parsed body
+     * @throws ApiError or one of its subclasses
+     */
+    public async getJson(url: string, key: string, signal?: AbortSignal): Promise<unknown> {
+        const startTime = Date.now();
+        for (let attempt = 0; ; attempt++) {
+            if (signal?.aborted) {
+                throw new ApiError(`${this.name}: Request aborted: ${signal.reason}`);
+            }
+
+            const budgetWaitMs = RequestBudget.take(key, this.budget, this.budgetPeriodMs);
+            if (budgetWaitMs > 0) {
+                throw new ApiQuotaError(`${this.name}: Request budget of ${this.budget} used up, next request allowed in ${Math.ceil(budgetWaitMs / 1000)}s`, null, budgetWaitMs);
+            }
+
+            const remaining = this.deadline - (Date.now() - startTime);
+            const options: AxiosRequestConfig = {
+                responseType: "json",
+                headers: {
+                    "Content-Encoding": "gzip"
+                },
+                timeout: Math.max(1, Math.min(this.timeout, remaining)),
+                signal
+            };
+
+            let error: ApiError;
+            let retryAfterMs: number | null = null;
+            try {
+                const res: AxiosResponse = await axios.get(url, options);
+                if (typeof process.env.TRACK_GET_TIMES !== "undefined" ) {
+                    this.logger.info(`ApiClient: ${this.name} GET TIME: ${Date.now() - startTime}ms, ${attempt + 1} attempts`);
+                }
+                return res.data;
+            } catch (e) {
+                error = this.classify(e, signal);
+                if (e instanceof AxiosError && e.response !== undefined) {
+                    retryAfterMs = this.getRetryAfter(e.response.headers["retry-after"]);
+                }
+            }
+
+            if (!(error instanceof ApiTransientError || error instanceof ApiQuotaError)) {
+                throw error;
+            }
+
+            // Full jitter: a random wait up to the backoff so clients that failed together do not retry together
+            const backoffMs = Math.min(this.maxDelayMs, this.baseDelayMs * 2 ** attempt);
+            const delayMs = retryAfterMs ?? Math.random() * backoffMs;
+            const elapsed = Date.now() - startTime;
+
+            if (attempt >= this.maxRetries || delayMs > this.maxDelayMs || elapsed + delayMs >= this.deadline) {
+                if (error instanceof ApiQuotaError) {
+                    error.retryAfterMs = retryAfterMs;
+                }
+                throw error;
+            }
+
+            this.logger.verbose(`ApiClient: ${error.message}, retry ${attempt + 1} of ${this.maxRetries} in ${Math.round(delayMs)}ms`);
+            await this.wait(delayMs, signal);
+        }
+    }
+
+    /**
+     * Wait before a retry, ending early if the signal is aborted
+     * @param delayMs Time to wait
+     * @param signal Optional signal that ends the wait
+     */
+    private wait(delayMs: number, signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve) => {
+            const done = (): void => {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", done);
+                resolve();
+            };
+            const timer = setTimeout(done, delayMs);
+            signal?.addEventListener("abort", done);
+        });
+    }
+
+    /**
+     * Turn an axios failure into the typed error
+     * @param e What axios threw
+     * @param signal Signal given for the request, an aborted request is not retried
+     * @returns The error to retry or throw
+     */
+    private classify(e: unknown, signal?: AbortSignal): ApiError {
+        if (signal?.aborted) {
+            return new ApiError(`${this.name}: Request aborted: ${signal.reason}`);
+        }
+
+        if (!(e instanceof AxiosError)) {
+            return new ApiTransientError(`${this.name}: ${e}`);
+        }
+
+        if (e.response === undefined) {
+            // No response: timeout, connection refused or reset, DNS failure
+            return new ApiTransientError(`${this.name}: ${e.code ?? "Request failed"}: ${e.message}`);
+        }
+
+        const status = e.response.status;
+        const body = e.response.data as {message?: string} | undefined;
+        const detail = (typeof body?.message === "string") ? `: ${body.message}` : "";
+
+        if (status === 401 || status === 403) {
+            return new ApiAuthError(`${this.name}: API key rejected (${status})${detail}`, status);
+        } else if (status === 429) {
+            return new ApiQuotaError(`${this.name}: Too many requests (429)${detail}`, status);
+        } else if (status >= 500 || status === 408) {
+            return new ApiTransientError(`${this.name}: Server error (${status})${detail}`, status);
+        }
+        return new ApiError(`${this.name}: Request failed (${status})${detail}`, status);
+    }
+
+    /**
+     * Parse a Retry-After header
+     * @param value Seconds to wait or an HTTP date
+     * @returns ms to wait or null if there is no usable header
+     */
+    private getRetryAfter(value: unknown): number | null {
+        if (typeof value !== "string" || value.trim() === "") {
+            return null;
+        }
+
+        if (/^\d+$/.test(value.trim())) {
+            return Number(value) * 1000;
+        }
+
+        const date = Date.parse(value);
+        return isNaN(date) ? null : Math.max(0, date - Date.now());
+    }
+}
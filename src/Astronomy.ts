@@ -0,0 +1,478 @@
+// Low level solar and lunar position math used by the local (offline) astronomy provider
+// - Sun: NOAA solar calculator equations (https://gml.noaa.gov/grad/solcalc/calcdetails.html)
+// - Moon: Meeus, Astronomical Algorithms 2nd Ed., Chapter 47 (principal periodic terms)
+// - Sidereal time and horizontal coordinates: Meeus Chapters 12 and 13
+//
+// All angles exposed by this module are in degrees, all instants are Julian days (UT)
+
+const DEG = Math.PI / 180;
+const RAD = 180 / Math.PI;
+const MSEC_PER_DAY = 24 * 60 * 60 * 1000;
+const UNIX_EPOCH = 2440587.5;              // UNIX Epoch in Julian days
+const J2000 = 2451545.0;                   // 2000-01-01 12:00 UT in Julian days
+const EARTH_RADIUS_KM = 6378.14;
+const AU_KM = 149597870.7;
+
+export const SUN_RISE_SET_ALTITUDE = -0.833;    // Refraction (34') plus the sun's semi-diameter (16')
+export const CIVIL_TWILIGHT_ALTITUDE = -6;
+export const NAUTICAL_TWILIGHT_ALTITUDE = -12;
+export const ASTRONOMICAL_TWILIGHT_ALTITUDE = -18;
+
+export interface EquatorialPosition {
+    ra: number;             // Right ascension in degrees (0-360)
+    dec: number;            // Declination in degrees
+    distance: number;       // Distance from the center of the earth in km
+}
+
+export interface EclipticPosition {
+    longitude: number;      // Apparent ecliptic longitude in degrees (0-360)
+    latitude: number;       // Ecliptic latitude in degrees
+    distance: number;       // Distance from the center of the earth in km
+}
+
+export interface HorizontalPosition {
+    altitude: number;       // Degrees above the horizon
+    azimuth: number;        // Degrees clockwise from north
+    hourAngle: number;      // Local hour angle in degrees (-180 to 180), negative east of the meridian
+}
+
+export interface MoonPhase {
+    elongation: number;     // Moon longitude - sun longitude (0-360), 0 is new, 180 is full
+    phaseAngle: number;     // Sun-moon-earth angle in degrees, 180 is new, 0 is full
+    illumination: number;   // Illuminated fraction of the disk (0.0-1.0)
+    brightLimbAngle: number;// Position angle of the midpoint of the bright limb, degrees east of north (0-360)
+}
+
+export interface RiseSet {
+    rise: number | null;    // Julian day of the first upward crossing in the window
+    set: number | null;     // Julian day of the first downward crossing in the window
+}
+
+// Principal terms for the moon's longitude and distance (Meeus table 47.A)
+//   D, M, M', F, longitude (1e-6 degrees), distance (1e-3 km)
+const MOON_LON_DIST_TERMS: Array<[number, number, number, number, number, number]> = [
+    [0, 0, 1, 0, 6288774, -20905355],
+    [2, 0, -1, 0, 1274027, -3699111],
+    [2, 0, 0, 0, 658314, -2955968],
+    [0, 0, 2, 0, 213618, -569925],
+    [0, 1, 0, 0, -185116, 48888],
+    [0, 0, 0, 2, -114332, -3149],
+    [2, 0, -2, 0, 58793, 246158],
+    [2, -1, -1, 0, 57066, -152138],
+    [2, 0, 1, 0, 53322, -170733],
+    [2, -1, 0, 0, 45758, -204586],
+    [0, 1, -1, 0, -40923, -129620],
+    [1, 0, 0, 0, -34720, 108743],
+    [0, 1, 1, 0, -30383, 104755],
+    [2, 0, 0, -2, 15327, 10321],
+    [0, 0, 1, 2, -12528, 0],
+    [0, 0, 1, -2, 10980, 79661],
+    [4, 0, -1, 0, 10675, -34782],
+    [0, 0, 3, 0, 10034, -23210],
+    [4, 0, -2, 0, 8548, -21636],
+    [2, 1, -1, 0, -7888, 24208],
+    [2, 1, 0, 0, -6766, 30824],
+    [1, 0, -1, 0, -5163, -8379],
+    [1, 1, 0, 0, 4987, -16675],
+    [2, -1, 1, 0, 4036, -12831],
+    [2, 0, 2, 0, 3994, -10445],
+    [4, 0, 0, 0, 3861, -11650],
+    [2, 0, -3, 0, 3665, 14403],
+    [0, 1, -2, 0, -2689, -7003],
+    [2, 0, -1, 2, -2602, 0],
+    [2, -1, -2, 0, 2390, 10056],
+    [1, 0, 1, 0, -2348, 6322],
+    [2, -2, 0, 0, 2236, -9884]
+];
+
+// Principal terms for the moon's latitude (Meeus table 47.B)
+//   D, M, M', F, latitude (1e-6 degrees)
+const MOON_LAT_TERMS: Array<[number, number, number, number, number]> = [
+    [0, 0, 0, 1, 5128122],
+    [0, 0, 1, 1, 280602],
+    [0, 0, 1, -1, 277693],
+    [2, 0, 0, -1, 173237],
+    [2, 0, -1, 1, 55413],
+    [2, 0, -1, -1, 46271],
+    [2, 0, 0, 1, 32573],
+    [0, 0, 2, 1, 17198],
+    [2, 0, 1, -1, 9266],
+    [0, 0, 2, -1, 8822],
+    [2, -1, 0, -1, 8216],
+    [2, 0, -2, -1, 4324],
+    [2, 0, 1, 1, 4200],
+    [2, 1, 0, -1, -3359],
+    [2, -1, -1, 1, 2463],
+    [2, -1, 0, 1, 2211],
+    [2, -1, -1, -1, 2065],
+    [0, 1, -1, -1, -1870],
+    [4, 0, -1, -1, 1828],
+    [0, 1, 0, 1, -1794]
+];
+
+/**
+ * Normalize an angle to the range 0-360
+ * @param angle angle in degrees
+ * @returns angle in degrees (0 <= angle < 360)
+ */
+export function normalizeDegrees(angle: number): number {
+    const result = angle % 360;
+    return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Convert a Javascript Date (an instant) to a Julian day
+ * @param date Javascript Date
+ * @returns Julian day number with fraction
+ */
+export function toJulianDay(date: Date): number {
+    return date.getTime() / MSEC_PER_DAY + UNIX_EPOCH;
+}
+
+/**
+ * Convert a Julian day back to a Javascript Date
+ * @param jd Julian day number with fraction
+ * @returns Javascript Date
+ */
+export function fromJulianDay(jd: number): Date {
+    return new Date(Math.round((jd - UNIX_EPOCH) * MSEC_PER_DAY));
+}
+
+function julianCentury(jd: number): number {
+    return (jd - J2000) / 36525;
+}
+
+/**
+ * Mean obliquity of the ecliptic plus the principal nutation term
+ * @param T Julian centuries since J2000
+ * @returns obliquity in degrees
+ */
+function obliquity(T: number): number {
+    const seconds = 21.448 - T * (46.815 + T * (0.00059 - T * 0.001813));
+    const meanObliquity = 23 + (26 + seconds / 60) / 60;
+    const omega = 125.04 - 1934.136 * T;
+    return meanObliquity + 0.00256 * Math.cos(omega * DEG);
+}
+
+/**
+ * Apparent geocentric ecliptic position of the sun (NOAA)
+ * @param jd Julian day (UT)
+ * @returns longitude, latitude (always 0) and distance
+ */
+export function sunEcliptic(jd: number): EclipticPosition {
+    const T = julianCentury(jd);
+    const L0 = normalizeDegrees(280.46646 + T * (36000.76983 + T * 0.0003032));
+    const M = 357.52911 + T * (35999.05029 - 0.0001537 * T);
+    const e = 0.016708634 - T * (0.000042037 + 0.0000001267 * T);
+    const C = Math.sin(M * DEG) * (1.914602 - T * (0.004817 + 0.000014 * T)) +
+              Math.sin(2 * M * DEG) * (0.019993 - 0.000101 * T) +
+              Math.sin(3 * M * DEG) * 0.000289;
+    const trueLongitude = L0 + C;
+    const trueAnomaly = M + C;
+    const radiusAU = (1.000001018 * (1 - e * e)) / (1 + e * Math.cos(trueAnomaly * DEG));
+    const omega = 125.04 - 1934.136 * T;
+
+    return {
+        longitude: normalizeDegrees(trueLongitude - 0.00569 - 0.00478 * Math.sin(omega * DEG)),
+        latitude: 0,
+        distance: radiusAU * AU_KM
+    };
+}
+
+/**
+ * Apparent geocentric position of the sun (NOAA)
+ * @param jd Julian day (UT)
+ * @returns right ascension, declination and distance
+ */
+export function sunPosition(jd: number): EquatorialPosition {
+    return toEquatorial(sunEcliptic(jd), jd);
+}
+
+/**
+ * Equation of time (apparent solar time - mean solar time)
+ * @param jd Julian day (UT)
+ * @returns equation of time in minutes
+ */
+export function equationOfTime(jd: number): number {
+    const T = julianCentury(jd);
+    const L0 = normalizeDegrees(280.46646 + T * (36000.76983 + T * 0.0003032)) * DEG;
+    const M = (357.52911 + T * (35999.05029 - 0.0001537 * T)) * DEG;
+    const e = 0.016708634 - T * (0.000042037 + 0.0000001267 * T);
+    const y = Math.pow(Math.tan(obliquity(T) * DEG / 2), 2);
+
+    const eot = y * Math.sin(2 * L0) -
+                2 * e * Math.sin(M) +
+                4 * e * y * Math.sin(M) * Math.cos(2 * L0) -
+                0.5 * y * y * Math.sin(4 * L0) -
+                1.25 * e * e * Math.sin(2 * M);
+
+    return 4 * eot * RAD;
+}
+
+/**
+ * Apparent geocentric ecliptic position of the moon (Meeus chapter 47, principal terms only)
+ * Accuracy is a few hundredths of a degree, well under a minute of rise/set time
+ * @param jd Julian day (UT)
+ * @returns longitude, latitude and distance
+ */
+export function moonEcliptic(jd: number): EclipticPosition {
+    const T = julianCentury(jd);
+    const Lp = normalizeDegrees(218.3164477 + 481267.88123421 * T - 0.0015786 * T * T);
+    const D  = normalizeDegrees(297.8501921 + 445267.1114034 * T - 0.0018819 * T * T);
+    const M  = normalizeDegrees(357.5291092 + 35999.0502909 * T - 0.0001536 * T * T);
+    const Mp = normalizeDegrees(134.9633964 + 477198.8675055 * T + 0.0087414 * T * T);
+    const F  = normalizeDegrees(93.2720950 + 483202.0175233 * T - 0.0036539 * T * T);
+    const E  = 1 - 0.002516 * T - 0.0000074 * T * T;
+
+    const A1 = 119.75 + 131.849 * T;
+    const A2 = 53.09 + 479264.290 * T;
+    const A3 = 313.45 + 481266.484 * T;
+
+    let sumL = 0;
+    let sumR = 0;
+    for (const [d, m, mp, f, l, r] of MOON_LON_DIST_TERMS) {
+        const arg = (d * D + m * M + mp * Mp + f * F) * DEG;
+        const eccentricity = Math.pow(E, Math.abs(m));
+        sumL += l * eccentricity * Math.sin(arg);
+        sumR += r * eccentricity * Math.cos(arg);
+    }
+
+    let sumB = 0;
+    for (const [d, m, mp, f, b] of MOON_LAT_TERMS) {
+        const arg = (d * D + m * M + mp * Mp + f * F) * DEG;
+        sumB += b * Math.pow(E, Math.abs(m)) * Math.sin(arg);
+    }
+
+    sumL += 3958 * Math.sin(A1 * DEG) + 1962 * Math.sin((Lp - F) * DEG) + 318 * Math.sin(A2 * DEG);
+    sumB += -2235 * Math.sin(Lp * DEG) + 382 * Math.sin(A3 * DEG) +
+            175 * Math.sin((A1 - F) * DEG) + 175 * Math.sin((A1 + F) * DEG) +
+            127 * Math.sin((Lp - Mp) * DEG) - 115 * Math.sin((Lp + Mp) * DEG);
+
+    // Nutation in longitude, principal terms (Meeus chapter 22)
+    const omega = (125.04452 - 1934.136261 * T) * DEG;
+    const Lsun = (280.4665 + 36000.7698 * T) * DEG;
+    const nutation = (-17.20 * Math.sin(omega) - 1.32 * Math.sin(2 * Lsun) - 0.23 * Math.sin(2 * Lp * DEG) + 0.21 * Math.sin(2 * omega)) / 3600;
+
+    return {
+        longitude: normalizeDegrees(Lp + sumL / 1000000 + nutation),
+        latitude: sumB / 1000000,
+        distance: 385000.56 + sumR / 1000
+    };
+}
+
+/**
+ * Apparent geocentric position of the moon
+ * @param jd Julian day (UT)
+ * @returns right ascension, declination and distance
+ */
+export function moonPosition(jd: number): EquatorialPosition {
+    return toEquatorial(moonEcliptic(jd), jd);
+}
+
+/**
+ * Convert ecliptic coordinates to equatorial coordinates (Meeus 13.3 and 13.4)
+ * @param pos Ecliptic position
+ * @param jd Julian day (UT)
+ * @returns right ascension, declination and distance
+ */
+function toEquatorial(pos: EclipticPosition, jd: number): EquatorialPosition {
+    const lambda = pos.longitude * DEG;
+    const beta = pos.latitude * DEG;
+    const epsilon = obliquity(julianCentury(jd)) * DEG;
+
+    const ra = Math.atan2(Math.sin(lambda) * Math.cos(epsilon) - Math.tan(beta) * Math.sin(epsilon), Math.cos(lambda));
+    const dec = Math.asin(Math.sin(beta) * Math.cos(epsilon) + Math.cos(beta) * Math.sin(epsilon) * Math.sin(lambda));
+
+    return {
+        ra: normalizeDegrees(ra * RAD),
+        dec: dec * RAD,
+        distance: pos.distance
+    };
+}
+
+/**
+ * Phase of the moon (Meeus chapter 48)
+ * @param jd Julian day (UT)
+ * @returns elongation, phase angle, illuminated fraction and position angle of the bright limb
+ */
+export function moonPhase(jd: number): MoonPhase {
+    const sun = sunPosition(jd);
+    const moon = moonPosition(jd);
+    const elongation = normalizeDegrees(moonEcliptic(jd).longitude - sunEcliptic(jd).longitude);
+
+    const a0 = sun.ra * DEG;
+    const d0 = sun.dec * DEG;
+    const a = moon.ra * DEG;
+    const d = moon.dec * DEG;
+
+    // Geocentric elongation (48.2) and phase angle (48.3)
+    const psi = Math.acos(Math.cos(d0) * Math.cos(d) * Math.cos(a0 - a) + Math.sin(d0) * Math.sin(d));
+    const phaseAngle = Math.atan2(sun.distance * Math.sin(psi), moon.distance - sun.distance * Math.cos(psi));
+
+    // Position angle of the bright limb (48.5)
+    const brightLimbAngle = Math.atan2(Math.cos(d0) * Math.sin(a0 - a), Math.sin(d0) * Math.cos(d) - Math.cos(d0) * Math.sin(d) * Math.cos(a0 - a));
+
+    return {
+        elongation,
+        phaseAngle: phaseAngle * RAD,
+        illumination: (1 + Math.cos(phaseAngle)) / 2,
+        brightLimbAngle: normalizeDegrees(brightLimbAngle * RAD)
+    };
+}
+
+/**
+ * Find the instant the moon reaches a given elongation (0 new, 90 first quarter, 180 full, 270 last quarter)
+ * @param jd Julian day (UT) to search from
+ * @param elongation Target elongation in degrees
+ * @param direction 1 to find the next instant, -1 to find the previous one
+ * @returns Julian day (UT) of the instant, accurate to about a minute
+ */
+export function findMoonPhase(jd: number, elongation: number, direction: 1 | -1 = 1): number {
+    const MEAN_ELONGATION_RATE = 360 / 29.530588853;   // degrees per day
+    const current = moonPhase(jd).elongation;
+
+    // Start from the mean motion estimate then use Newton's method on the actual elongation
+    let estimate = (direction === 1)
+        ? jd + normalizeDegrees(elongation - current) / MEAN_ELONGATION_RATE
+        : jd - normalizeDegrees(current - elongation) / MEAN_ELONGATION_RATE;
+
+    for (let i = 0; i < 10; i++) {
+        let error = normalizeDegrees(moonPhase(estimate).elongation - elongation);
+        if (error > 180) error -= 360;
+        estimate -= error / MEAN_ELONGATION_RATE;
+        if (Math.abs(error) < 0.0001) break;
+    }
+
+    return estimate;
+}
+
+/**
+ * Horizontal parallax of the moon
+ * @param distance distance from the center of the earth in km
+ * @returns parallax in degrees
+ */
+export function moonParallax(distance: number): number {
+    return Math.asin(EARTH_RADIUS_KM / distance) * RAD;
+}
+
+/**
+ * Altitude used for moonrise/moonset of the upper limb including refraction (Meeus chapter 15)
+ * @param distance distance from the center of the earth in km
+ * @returns geocentric altitude in degrees
+ */
+export function moonRiseSetAltitude(distance: number): number {
+    return 0.7275 * moonParallax(distance) - 0.5667;
+}
+
+/**
+ * Greenwich mean sidereal time (Meeus 12.4)
+ * @param jd Julian day (UT)
+ * @returns sidereal time in degrees
+ */
+export function siderealTime(jd: number): number {
+    const T = julianCentury(jd);
+    return normalizeDegrees(280.46061837 + 360.98564736629 * (jd - J2000) + 0.000387933 * T * T - T * T * T / 38710000);
+}
+
+/**
+ * Convert an equatorial position to altitude and azimuth for an observer
+ * @param pos Equatorial position
+ * @param jd Julian day (UT)
+ * @param lat Observer latitude in degrees north
+ * @param lon Observer longitude in degrees east
+ * @returns altitude, azimuth (from north) and hour angle
+ */
+export function toHorizontal(pos: EquatorialPosition, jd: number, lat: number, lon: number): HorizontalPosition {
+    let hourAngle = normalizeDegrees(siderealTime(jd) + lon - pos.ra);
+    if (hourAngle > 180) hourAngle -= 360;
+
+    const H = hourAngle * DEG;
+    const phi = lat * DEG;
+    const delta = pos.dec * DEG;
+
+    const altitude = Math.asin(Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(H)) * RAD;
+    const azimuth = normalizeDegrees(Math.atan2(Math.sin(H), Math.cos(H) * Math.sin(phi) - Math.tan(delta) * Math.cos(phi)) * RAD + 180);
+
+    return { altitude, azimuth, hourAngle };
+}
+
+/**
+ * Parallactic angle of a body (Meeus 14.1)
+ * @param pos Equatorial position
+ * @param jd Julian day (UT)
+ * @param lat Observer latitude in degrees north
+ * @param lon Observer longitude in degrees east
+ * @returns parallactic angle in degrees
+ */
+export function parallacticAngle(pos: EquatorialPosition, jd: number, lat: number, lon: number): number {
+    const H = toHorizontal(pos, jd, lat, lon).hourAngle * DEG;
+    const phi = lat * DEG;
+    const delta = pos.dec * DEG;
+    return Math.atan2(Math.sin(H), Math.tan(phi) * Math.cos(delta) - Math.sin(delta) * Math.cos(H)) * RAD;
+}
+
+/**
+ * Find the first upward and downward crossing of an altitude function within a window.
+ * The function is sampled every stepMinutes and each crossing is refined by bisection.
+ * @param altitudeAboveHorizon function returning (altitude - threshold) in degrees for a Julian day
+ * @param startJd start of the window
+ * @param endJd end of the window
+ * @param stepMinutes sample interval, must be short enough to not skip a rise and set pair
+ * @returns Julian days of the first rise and set, null if there is no crossing
+ */
+export function findRiseSet(altitudeAboveHorizon: (jd: number) => number, startJd: number, endJd: number, stepMinutes = 10): RiseSet {
+    const step = stepMinutes / (24 * 60);
+    const result: RiseSet = { rise: null, set: null };
+
+    let prevJd = startJd;
+    let prevAlt = altitudeAboveHorizon(prevJd);
+
+    while (prevJd < endJd && (result.rise === null || result.set === null)) {
+        const nextJd = Math.min(prevJd + step, endJd);
+        const nextAlt = altitudeAboveHorizon(nextJd);
+
+        if ((prevAlt < 0) !== (nextAlt < 0)) {
+            // Bisect down to about 1/10 second
+            let lo = prevJd;
+            let hi = nextJd;
+            let loAlt = prevAlt;
+            for (let i = 0; i < 20; i++) {
+                const mid = (lo + hi) / 2;
+                const midAlt = altitudeAboveHorizon(mid);
+                if ((midAlt < 0) === (loAlt < 0)) {
+                    lo = mid;
+                    loAlt = midAlt;
+                } else {
+                    hi = mid;
+                }
+            }
+            const crossing = (lo + hi) / 2;
+
+            if (prevAlt < 0 && result.rise === null) {
+                result.rise = crossing;
+            } else if (prevAlt >= 0 && result.set === null) {
+                result.set = crossing;
+            }
+        }
+
+        prevJd = nextJd;
+        prevAlt = nextAlt;
+    }
+
+    return result;
+}
+
+/**
+ * Time of the sun's transit across the local meridian (solar noon) for a UT calendar day
+ * @param jd0 Julian day at 0h UT of the day
+ * @param lon Observer longitude in degrees east
+ * @returns Julian day of the transit
+ */
+export function solarTransit(jd0: number, lon: number): number {
+    // First estimate from the mean sun, then correct with the equation of time at that estimate
+    let transitMinutes = 720 - 4 * lon;
+    for (let i = 0; i < 2; i++) {
+        transitMinutes = 720 - 4 * lon - equationOfTime(jd0 + transitMinutes / (24 * 60));
+    }
+    return jd0 + transitMinutes / (24 * 60);
+}
@@ -0,0 +1,114 @@
+import { LoggerInterface } from "./Logger";
+import { SunMoonJson } from "./SunMoonData";
+import { ApiAuthError } from "./ApiClient";
+import { normalizeSunMoonJson, SunMoonSchemaError } from "./SunMoonSchema";
+
+export interface AstronomyProviderInterface {
+    name: string;
+    getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null>;
+}
+
+/**
+ * Tries each provider in order until one returns well formed data.
+ * A provider that throws, times out or returns null or data that fails normalizeSunMoonJson() is skipped.
+ * A provider that times out is given an aborted signal so it stops its request and retries.
+ */
+export class AstronomyProviderChain implements AstronomyProviderInterface {
+    public name: string;
+    private logger: LoggerInterface;
+    private providers: Array<AstronomyProviderInterface>;
+    private timeout: number;
+
+    /**
+     * Constructor for AstronomyProviderChain
+     * @param logger Object that implements the LoggerInterface
+     * @param providers Providers to try, in order
+     * @param timeout Time in ms to wait for each provider before trying the next one
+     */
+    constructor(logger: LoggerInterface, providers: Array<AstronomyProviderInterface>, timeout = 20000) {
+        this.logger = logger;
+        this.providers = providers;
+        this.timeout = timeout;
+        this.name = providers.map((provider) => provider.name).join(",");
+    }
+
+    /**
+     * Get the sun and moon data from the first provider that can supply it
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     * @param signal Optional signal to abort the request to the current provider and stop trying the others
+     * @returns SunMoonJson with provider set to the name of the provider that served it, or null
+     */
+    public async getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null> {
+        for (const provider of this.providers) {
+            if (signal?.aborted) {
+                break;
+            }
+
+            let raw: SunMoonJson | null = null;
+            try {
+                raw = await this.withTimeout((providerSignal) => provider.getSunMoonJson(lat, lon, timeZone, dateStr, providerSignal), provider.name, signal);
+            } catch (e) {
+                // A bad key will not fix itself, make sure it is seen
+                if (e instanceof ApiAuthError) {
+                    this.logger.error(`AstronomyProviderChain: ${provider.name} failed: ${e}`);
+                } else {
+                    this.logger.warn(`AstronomyProviderChain: ${provider.name} failed: ${e}`);
+                }
+                continue;
+            }
+
+            if (raw === null) {
+                this.logger.warn(`AstronomyProviderChain: ${provider.name} returned no data`);
+                continue;
+            }
+
+            let sunMoonJson: SunMoonJson;
+            try {
+                sunMoonJson = normalizeSunMoonJson(raw, provider.name);
+                if (sunMoonJson.date !== dateStr) {
+                    throw new SunMoonSchemaError(provider.name, [`date ${sunMoonJson.date} is not the date asked for, ${dateStr}`]);
+                }
+            } catch (e) {
+                this.logger.warn(`AstronomyProviderChain: ${provider.name} returned malformed data: ${e instanceof Error ? e.message : e}`);
+                continue;
+            }
+
+            this.logger.info(`AstronomyProviderChain: Data for lat: ${lat}, lon: ${lon}, date: ${dateStr} served by ${provider.name}`);
+            sunMoonJson.provider = provider.name;
+            return sunMoonJson;
+        }
+
+        this.logger.warn(`AstronomyProviderChain: No provider had data for lat: ${lat}, lon: ${lon}, date: ${dateStr}`);
+        return null;
+    }
+
+    /**
+     * Reject if the request does not settle in time, and abort it so it does not keep running and retrying
+     * @param request Starts the provider request with the signal to abort it
+     * @param name Provider name for the error message
+     * @param signal Optional signal from the caller, which also aborts the request
+     * @returns The provider result
+     */
+    private withTimeout(request: (signal: AbortSignal) => Promise<SunMoonJson | null>, name: string, signal?: AbortSignal): Promise<SunMoonJson | null> {
+        const controller = new AbortController();
+        const abort = (): void => controller.abort(signal?.reason);
+        signal?.addEventListener("abort", abort);
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<never>((resolve, reject) => {
+            timer = setTimeout(() => {
+                const error = new Error(`${name} timed out after ${this.timeout}ms`);
+                controller.abort(error);
+                reject(error);
+            }, this.timeout);
+        });
+
+        return Promise.race([request(controller.signal), timeout]).finally(() => {
+            clearTimeout(timer);
+            signal?.removeEventListener("abort", abort);
+        });
+    }
+}
@@ -0,0 +1,655 @@
+import moment from "moment-timezone";
+import { LoggerInterface } from "./Logger";
+import { SunMoonJson, SunState } from "./SunMoonData";
+import { Theme, getTheme } from "./Theme";
+import { Locale, getLocale, getPhaseName } from "./Locale";
+import { FontSources } from "./Raster";
+
+// The layout and the time to angle math shared by the raster (SunMoonImage) and vector (SunMoonSvgImage) renderers.
+//
+// Times of day are drawn on a 24 hour dial.  A time angle is in degrees, clockwise from midnight at the bottom
+// (0) through 6 AM on the left (90), noon at the top (180) and 6 PM on the right (270).  getRenderAngle()
+// converts a time angle to the radians from the +x axis that arc() and rotate() expect.
+
+export type Orientation = "landscape" | "portrait";
+
+export type ImageFormat = "jpg" | "png" | "rgba" | "svg";
+
+export interface ImageOptions {
+    theme?: Theme | string;             // Theme object, built-in theme name or path to a JSON theme file.  Default is "light"
+    width?: number;                     // Image width in pixels.  Default is 1920 (1080 for portrait)
+    height?: number;                    // Image height in pixels.  Default is 1080 (1920 for portrait)
+    orientation?: Orientation;          // Default is portrait if height > width, otherwise landscape
+    format?: ImageFormat;               // "jpg" (default), "png", "rgba" (raw pixels, 4 bytes per pixel, row by row) or "svg"
+    jpegQuality?: number;               // 1-100, default is 80.  Only used for "jpg"
+    instant?: Date | number | string;   // Time the sun and moon markers are drawn for: a Date, ms since the epoch or ISO 8601 with an offset.  Default is now
+    clock?: boolean;                    // Show the time of the markers as a digital clock in the lower left.  Default is false
+    locale?: Locale | string;           // Locale object, built-in locale name ("en", "de", "fr", "es") or path to a JSON locale file.  Default is "en"
+    hour12?: boolean;                   // true for "6:11 PM", false for "18:11".  Default is the locale's
+    fonts?: FontSources;                // TTF paths or contents by font family, for fonts a theme names that are not bundled or to replace them.  Not used for "svg"
+}
+
+export interface EncodedImage {
+    data: Buffer;                       // Encoded file contents, or width * height * 4 bytes for "rgba"
+    width: number;
+    height: number;
+}
+
+export interface ImageResult {
+    imageType: ImageFormat;             // Also the file extension
+    imageData: EncodedImage | null;
+}
+
+export interface ResolvedImageOptions {
+    theme: Theme;
+    portrait: boolean;
+    width: number;
+    height: number;
+    format: ImageFormat;
+    jpegQuality: number;
+    instant: Date;
+    clock: boolean;
+    locale: Locale;                     // With hour12 applied
+    fonts: FontSources;
+}
+
+// The layout was designed at these sizes and is scaled to fit the requested size
+const LANDSCAPE_WIDTH  = 1920;
+const LANDSCAPE_HEIGHT = 1080;
+const MIN_IMAGE_SIZE   = 200;
+
+const IMAGE_FORMATS: Array<ImageFormat> = ["jpg", "png", "rgba", "svg"];
+const DEFAULT_JPEG_QUALITY = 80;
+
+/**
+ * Fills in the defaults and checks the rendering options
+ * @param options Options passed to getImage()
+ * @returns Options with every value set
+ * @throws ThemeError if the theme is not valid
+ * @throws LocaleError if the locale is not valid
+ * @throws RangeError if the width, height, format, JPEG quality, instant or fonts are not usable
+ */
+export function resolveImageOptions(options: ImageOptions): ResolvedImageOptions {
+    const theme: Theme = getTheme(options.theme);
+    const locale: Locale = getLocale(options.locale);
+    if (options.hour12 !== undefined) {
+        locale.hour12 = options.hour12;
+    }
+
+    const portrait = options.orientation !== undefined ? options.orientation === "portrait" : (options.height ?? 0) > (options.width ?? 0);
+    const width    = options.width  ?? (portrait ? LANDSCAPE_HEIGHT : LANDSCAPE_WIDTH);
+    const height   = options.height ?? (portrait ? LANDSCAPE_WIDTH  : LANDSCAPE_HEIGHT);
+
+    for (const [name, value] of [["width", width], ["height", height]] as Array<[string, number]>) {
+        if (!Number.isInteger(value) || value < MIN_IMAGE_SIZE) {
+            throw new RangeError(`Dial: ${name} ${value} is not valid, expected an integer of at least ${MIN_IMAGE_SIZE}`);
+        }
+    }
+
+    const format: ImageFormat = options.format ?? "jpg";
+    if (!IMAGE_FORMATS.includes(format)) {
+        throw new RangeError(`Dial: format "${format}" is not valid, expected one of: ${IMAGE_FORMATS.join(", ")}`);
+    }
+
+    const jpegQuality = options.jpegQuality ?? DEFAULT_JPEG_QUALITY;
+    if (!Number.isInteger(jpegQuality) || jpegQuality < 1 || jpegQuality > 100) {
+        throw new RangeError(`Dial: jpegQuality ${jpegQuality} is not valid, expected an integer from 1 to 100`);
+    }
+
+    const instant = resolveInstant(options.instant);
+
+    const fonts = options.fonts ?? {};
+    for (const [family, source] of Object.entries(fonts)) {
+        if (typeof source !== "string" && !Buffer.isBuffer(source)) {
+            throw new RangeError(`Dial: font "${family}" is not valid, expected a TTF file path or a Buffer`);
+        }
+    }
+
+    return { theme, portrait, width, height, format, jpegQuality, instant, clock: options.clock === true, locale, fonts };
+}
+
+/**
+ * Converts the instant option to a Date.  Strings must have an offset or "Z" so they mean the same on every host.
+ * @param instant A Date, ms since the epoch, ISO 8601 string (e.g.: "2021-09-01T08:00:00-04:00") or undefined for now
+ * @returns The instant
+ * @throws RangeError if the instant is not usable
+ */
+export function resolveInstant(instant?: Date | number | string): Date {
+    if (instant === undefined) {
+        return new Date();
+    }
+
+    let date: Date | null = null;
+    if (instant instanceof Date) {
+        date = instant;
+    } else if (typeof instant === "number") {
+        date = new Date(instant);
+    } else if (typeof instant === "string" && /(Z|[+-]\d{2}:?\d{2})$/i.test(instant.trim())) {
+        const parsed = moment.parseZone(instant.trim(), moment.ISO_8601, true);
+        date = parsed.isValid() ? parsed.toDate() : null;
+    }
+
+    if (date === null || isNaN(date.valueOf())) {
+        throw new RangeError(`Dial: instant "${instant}" is not valid, expected a Date, ms since the epoch or ISO 8601 with an offset (e.g.: 2021-09-01T08:00:00-04:00)`);
+    }
+    return date;
+}
+
+export interface DialLayout {
+    imageWidth: number;
+    imageHeight: number;
+    portrait: boolean;
+    scale: number;                      // For text and everything outside the dial
+    dialScale: number;                  // For the dial
+    centerX: number;
+    centerY: number;
+    sunCircleRadius: number;
+    moonCircleRadius: number;
+    sunArcWidth: number;
+    moonArcWidth: number;
+    sunRadius: number;
+    moonRadius: number;
+    centerMoonRadius: number;
+    thinLineWidth: number;
+    tickLineWidth: number;
+    majorTickLineWidth: number;
+    largeFontSize: number;
+    mediumFontSize: number;
+    smallFontSize: number;
+    extraSmallFontSize: number;
+    smallFontCharHeight: number;
+    titleY: number;
+    dateY: number;
+    labelSpacingY: number;
+    labelValueOffsetY: number;
+    labelMinY: number;
+    labelMaxY: number;
+    labelColumnXs: [number, number];    // Middle of the dawn (left) and dusk (right) label columns
+}
+
+/**
+ * Scales the 1920x1080 design (1080x1920 for portrait) to the image size.
+ * In portrait the dial is a little smaller so the side time labels fit and the sun
+ * event labels are below the dial instead of either side of it.
+ * @param theme Sizes to scale
+ * @param imageWidth Width in pixels
+ * @param imageHeight Height in pixels
+ * @param portrait true for the portrait layout
+ * @returns Positions and sizes in pixels
+ */
+export function getDialLayout(theme: Theme, imageWidth: number, imageHeight: number, portrait: boolean): DialLayout {
+    const scale = portrait ?
+        Math.min(imageWidth / LANDSCAPE_HEIGHT, imageHeight / LANDSCAPE_WIDTH) :
+        Math.min(imageWidth / LANDSCAPE_WIDTH,  imageHeight / LANDSCAPE_HEIGHT);
+    const dialScale = portrait ? scale * 0.9 : scale;
+    const dial = (value: number): number => value * dialScale;
+    const fontSize = (size: number): number => Math.max(8, Math.round(size * scale));
+
+    const sunCircleRadius     = dial(theme.layout.sunCircleRadius);
+    const smallFontSize       = fontSize(theme.fonts.smallFontSize);
+    const smallFontCharHeight = Math.round(smallFontSize * 0.75);  // Approximation of the height of a capital letter
+
+    const titleY              = 90 * scale;                        // down from the top of the image
+    const dateY               = imageHeight - 20 * scale;
+    const labelSpacingY       = 110 * scale;                       // Label and time take two lines
+    const labelMaxY           = dateY - 120 * scale;               // Keep the time line clear of the date
+    const labelMinY           = portrait ? labelMaxY - 3 * labelSpacingY : titleY + 120 * scale;   // Room for 4 labels in portrait
+
+    // In portrait the dial is centered in the space between the title and the labels
+    const centerX             = imageWidth/2;
+    const centerY             = portrait ?
+        (titleY + labelMinY - smallFontCharHeight) / 2 :
+        imageHeight/2 + 40 * scale;                                // leave some extra room at the top for the title
+
+    return {
+        imageWidth,
+        imageHeight,
+        portrait,
+        scale,
+        dialScale,
+        centerX,
+        centerY,
+        sunCircleRadius,
+        moonCircleRadius:     dial(theme.layout.moonCircleRadius),
+        sunArcWidth:          dial(theme.layout.sunArcWidth),
+        moonArcWidth:         dial(theme.layout.moonArcWidth),
+        sunRadius:            dial(theme.layout.sunRadius),
+        moonRadius:           dial(theme.layout.moonRadius),
+        centerMoonRadius:     dial(theme.layout.centerMoonRadius),
+        thinLineWidth:        Math.max(1, dial(2)),
+        tickLineWidth:        Math.max(1, dial(3)),
+        majorTickLineWidth:   Math.max(2, dial(8)),
+        largeFontSize:        fontSize(theme.fonts.largeFontSize),
+        mediumFontSize:       fontSize(theme.fonts.mediumFontSize),
+        smallFontSize,
+        extraSmallFontSize:   fontSize(theme.fonts.extraSmallFontSize),
+        smallFontCharHeight,
+        titleY,
+        dateY,
+        labelSpacingY,
+        labelValueOffsetY:    50 * scale,
+        labelMinY,
+        labelMaxY,
+        labelColumnXs: portrait ?
+            [imageWidth/4, imageWidth * 3/4] :
+            [centerX - (sunCircleRadius + 350 * scale), centerX + (sunCircleRadius + 350 * scale)]
+    };
+}
+
+export interface DialArc {
+    startAngle: number;                 // Time angle in degrees
+    endAngle: number;
+    color: string;
+    fullCircle: boolean;                // Drawn all the way around, the angles are not used
+}
+
+export interface DialLabel {
+    label: string;
+    value: string;
+    x: number;                          // Center of the text
+    y: number;                          // Baseline of the label, the value is labelValueOffsetY below
+}
+
+export interface MoonSlot {
+    labelX: number;
+    labelY: number;
+    timeX: number;
+    timeY: number;
+}
+
+export interface MajorTimeTexts {
+    midnight: string;                   // Bottom of the dial (e.g.: "12 AM" or "00:00")
+    sixAm: string;                      // Left
+    noon: string;                       // Top
+    sixPm: string;                      // Right
+}
+
+export interface DialModel {
+    title: string;
+    dateText: string;
+    staleText: string | null;           // Shown in the lower left when the data is stale
+    clockText: string | null;           // Time of the markers (e.g.: "8:00 AM") in the lower left, null if the clock is off
+    majorTimeTexts: MajorTimeTexts;     // Hour labels around the dial
+    sunState: SunState;
+    sunriseAngle: number;
+    sunsetAngle: number;
+    currentTimeAngle: number;
+    sunIsUp: boolean;
+    sunArcs: Array<DialArc>;            // Sun up arc, then the twilight bands, in drawing order
+    sunTickAngles: Array<number>;       // Sunrise, sunset and each twilight boundary
+    sunLabels: Array<DialLabel>;
+    moonrise: string;                   // "HH:mm" or NO_EVENT
+    moonset: string;
+    moonriseLabel: string;              // "Rise" in the locale
+    moonsetLabel: string;
+    moonriseText: string;               // Time to show, "None" in the locale if the moon does not rise this day
+    moonsetText: string;
+    moonriseAngle: number;
+    moonsetAngle: number;               // More than 360 if the moon sets the next day
+    moonIsUp: boolean;                  // The current time is on the moon up arc
+    moonriseSlot: MoonSlot;
+    moonsetSlot: MoonSlot;
+    moonIllumination: number;           // Fraction 0-1
+    moonDiscRotation: number;           // Radians to rotate the disc so the bright limb (+x) faces the right way
+    moonPhaseText: string;
+    moonIlluminationText: string;
+}
+
+/**
+ * Works out everything to draw from the sun and moon data
+ * @param sunMoonJson Data for the day
+ * @param location Location name for the title (e.g.: "Boston, MA")
+ * @param lat Lattitude in decimal degrees north, used to orient the moon if there is no bright limb angle
+ * @param theme Theme for the arc colors
+ * @param layout Layout from getDialLayout()
+ * @param logger Logger for bad times in the data
+ * @param clock true to show current_time as a digital clock
+ * @param locale Locale for the text and the time format.  Default is English
+ * @returns What to draw, with all positions in pixels
+ */
+export function getDialModel(sunMoonJson: SunMoonJson, location: string, lat: string, theme: Theme, layout: DialLayout, logger: LoggerInterface, clock = false, locale: Locale = getLocale()): DialModel {
+    const labels = locale.labels;
+    const { centerX, centerY, sunCircleRadius, labelMinY, labelMaxY, labelSpacingY, labelColumnXs, portrait } = layout;
+    const dial = (value: number): number => value * layout.dialScale;
+
+    // The date is formatted in the data's time zone, not the host's, so every host draws the same text
+    const dateText = getDateText(sunMoonJson, locale);
+
+    // Near the poles there may be no sunrise or sunset at all.  sunState says if the sun is up all day,
+    // down all day or only gets as high as twilight.  Data cached without a sunState is treated as normal.
+    // On a normal day a missing sunrise or sunset (it happens just the other side of midnight) is drawn at midnight.
+    const sunState: SunState = sunMoonJson.sunState ?? "normal";
+    const hasSunrise      = sunState === "normal" && isTime(sunMoonJson.sunrise);
+    const hasSunset       = sunState === "normal" && isTime(sunMoonJson.sunset);
+    const sunriseAngle    = hasSunrise ? getAngle(sunMoonJson.sunrise, logger) : 0;
+    const sunsetAngle     = hasSunset  ? getAngle(sunMoonJson.sunset, logger)  : 359.75;
+
+    // No moonrise this day, the arc starts at AM midnight.  No moonset this day, it ends at PM midnight.
+    const hasMoonrise     = isTime(sunMoonJson.moonrise);
+    const hasMoonset      = isTime(sunMoonJson.moonset);
+    const moonriseAngle   = hasMoonrise ? getAngle(sunMoonJson.moonrise, logger) : 0;
+    let moonsetAngle      = hasMoonset  ? getAngle(sunMoonJson.moonset, logger)  : 359.75;
+
+    if (moonsetAngle < moonriseAngle) {
+        // actual moonset for today's moonrise is tomorrow. Add 360 to the moon angle
+        moonsetAngle += 360;
+    }
+
+    // Current time format is "08:21:14.988" but getAngle only uses hh & mm so secs and msecs are ignored
+    const currentTimeAngle = getAngle(sunMoonJson.current_time, logger);
+    const sunIsUp = (sunState === "always-up") || (sunState === "normal" && currentTimeAngle > sunriseAngle && currentTimeAngle < sunsetAngle);
+
+    // Up where the moon up arc is drawn, which runs past midnight into the morning if the moon sets the next day
+    const moonIsUp = (currentTimeAngle >= moonriseAngle && currentTimeAngle <= moonsetAngle) || currentTimeAngle + 360 <= moonsetAngle;
+
+    // The sun up arc, all the way around for polar day.  For polar night there is only the night circle.
+    const sunArcs: Array<DialArc> = [];
+    if (sunState === "always-up") {
+        sunArcs.push({startAngle: 0, endAngle: 360, color: theme.colors.sunArcColor, fullCircle: true});
+    } else if (sunState === "normal") {
+        sunArcs.push({startAngle: sunriseAngle, endAngle: sunsetAngle, color: theme.colors.sunArcColor, fullCircle: false});
+    }
+
+    // Each twilight band is drawn as its own arc segment, working out from the sun up arc
+    //   sunrise <- civil dawn <- nautical dawn <- astronomical dawn
+    //   sunset  -> civil dusk -> nautical dusk -> astronomical dusk
+    // If the sun never gets far enough below the horizon for a band to end, that band fills
+    // the rest of the night and the deeper bands are not drawn.  If the sun does not rise, the
+    // brightest band that occurs is drawn from its dawn through noon to its dusk.
+    type SunEvent = {label: string, time: string, angle: number};
+    const amEvents: Array<SunEvent> = [];
+    const pmEvents: Array<SunEvent> = [];
+    if (hasSunrise) amEvents.push({label: labels.sunrise, time: sunMoonJson.sunrise, angle: sunriseAngle});
+    if (hasSunset)  pmEvents.push({label: labels.sunset,  time: sunMoonJson.sunset,  angle: sunsetAngle});
+
+    const twilightBands = [
+        {dawnLabel: labels.civilDawn,        duskLabel: labels.civilDusk,        dawn: sunMoonJson.civilDawn,        dusk: sunMoonJson.civilDusk,        color: theme.colors.civilTwilightArcColor},
+        {dawnLabel: labels.nauticalDawn,     duskLabel: labels.nauticalDusk,     dawn: sunMoonJson.nauticalDawn,     dusk: sunMoonJson.nauticalDusk,     color: theme.colors.nauticalTwilightArcColor},
+        {dawnLabel: labels.astronomicalDawn, duskLabel: labels.astronomicalDusk, dawn: sunMoonJson.astronomicalDawn, dusk: sunMoonJson.astronomicalDusk, color: theme.colors.astroTwilightArcColor}
+    ];
+
+    let innerDawnAngle: number | null = (sunState === "normal") ? sunriseAngle : null;
+    let innerDuskAngle: number | null = (sunState === "normal") ? sunsetAngle  : null;
+    for (const band of twilightBands) {
+        if (isTime(band.dawn) && isTime(band.dusk)) {
+            const dawnAngle = getAngle(band.dawn as string, logger);
+            const duskAngle = getAngle(band.dusk as string, logger);
+            if (innerDawnAngle === null || innerDuskAngle === null) {
+                // No sunrise, this is the brightest part of the day
+                sunArcs.push({startAngle: dawnAngle, endAngle: duskAngle, color: band.color, fullCircle: false});
+            } else {
+                sunArcs.push({startAngle: dawnAngle,      endAngle: innerDawnAngle, color: band.color, fullCircle: false});
+                sunArcs.push({startAngle: innerDuskAngle, endAngle: duskAngle,      color: band.color, fullCircle: false});
+            }
+
+            amEvents.push({label: band.dawnLabel, time: band.dawn as string, angle: dawnAngle});
+            pmEvents.push({label: band.duskLabel, time: band.dusk as string, angle: duskAngle});
+            innerDawnAngle = dawnAngle;
+            innerDuskAngle = duskAngle;
+        } else if (innerDawnAngle !== null && innerDuskAngle !== null) {
+            // This band lasts all night, from the inner dusk through midnight to the inner dawn
+            sunArcs.push({startAngle: innerDuskAngle, endAngle: innerDawnAngle, color: band.color, fullCircle: false});
+            break;
+        }
+        // Otherwise the sun never gets this high, try the next, darker, band
+    }
+
+    // Labels for sunrise, sunset and each twilight boundary
+    // - Dawn events go in a column on the left, dusk events in a column on the right
+    // - In landscape each label is placed as close as possible to the height of its tick mark without overlapping
+    // - In portrait the columns are below the dial so the labels are just listed in time order
+    type SunLabel = {label: string, value: string, idealY: number};
+    const toLabel = (event: SunEvent, i: number): SunLabel => ({
+        label: event.label,
+        value: formatTime(event.time, logger, locale),
+        idealY: portrait ? labelMinY + i * labelSpacingY : centerY + sunCircleRadius * Math.cos(event.angle * Math.PI/180)
+    });
+    const amLabels: Array<SunLabel> = (portrait ? [...amEvents].reverse() : amEvents).map(toLabel);
+    const pmLabels: Array<SunLabel> = pmEvents.map(toLabel);
+
+    // Explain a polar day or night at the bottom of the left column instead of sunrise/sunset
+    if (sunState === "always-up") {
+        amLabels.push({label: labels.midnightSun, value: labels.sunUpAllDay, idealY: labelMaxY});
+    } else if (sunState === "twilight-only") {
+        amLabels.push({label: labels.polarNight, value: labels.twilightOnly, idealY: labelMaxY});
+    } else if (sunState === "always-down") {
+        amLabels.push({label: labels.polarNight, value: labels.sunDownAllDay, idealY: labelMaxY});
+    }
+
+    const sunLabels: Array<DialLabel> = [];
+    for (const [labels, labelX] of [[amLabels, labelColumnXs[0]], [pmLabels, labelColumnXs[1]]] as Array<[Array<SunLabel>, number]>) {
+        const labelYs = layoutLabels(labels.map((label) => label.idealY), labelMinY, labelMaxY, labelSpacingY);
+        labels.forEach((label, i) => sunLabels.push({label: label.label, value: label.value, x: labelX, y: labelYs[i]}));
+    }
+
+    // Which quadrants are moonrise and moonset in?  Angle is clockwise from striaght down
+    //    1  |  2
+    //   ----+----
+    //    0  |  3
+    //
+    const moonSlots: Array<MoonSlot> = [
+        {labelX: centerX - dial(120), labelY: centerY + dial(160), timeX: centerX - dial(120),  timeY: centerY + dial(200)},
+        {labelX: centerX - dial(120), labelY: centerY - dial(170), timeX: centerX - dial(120),  timeY: centerY - dial(130)},
+        {labelX: centerX + dial(120), labelY: centerY - dial(170), timeX: centerX + dial(120),  timeY: centerY - dial(130)},
+        {labelX: centerX + dial(120), labelY: centerY + dial(160), timeX: centerX + dial(120),  timeY: centerY + dial(200)}
+    ];
+    const moonriseQuadrant = Math.min(3, Math.floor(moonriseAngle / 90));
+    const moonsetQuadrant  = (moonriseQuadrant + 2) % 4;
+
+    // The angle of the bright limb from the zenith (counter clockwise) is the position angle of the bright limb
+    // less the parallactic angle.  This already accounts for the hemisphere of the viewer.  If either is missing
+    // use the usual picture: waxing lit on the right in the northern hemisphere, mirrored in the southern.
+    let brightLimbFromZenith: number;
+    if (typeof sunMoonJson.lunarBrightLimbAngle === "number" && typeof sunMoonJson.moon_parallactic_angle === "number") {
+        brightLimbFromZenith = sunMoonJson.lunarBrightLimbAngle - sunMoonJson.moon_parallactic_angle;
+    } else {
+        brightLimbFromZenith = (sunMoonJson.lunarWaxWane === "waxing") ? 270 : 90;
+        if (Number(lat) < 0) {
+            brightLimbFromZenith = 360 - brightLimbFromZenith;
+        }
+    }
+    const zenithRadians = brightLimbFromZenith * Math.PI/180;
+
+    return {
+        title:                labels.title.replace("{location}", location),
+        dateText:             dateText,
+        staleText:            sunMoonJson.stale === true ? `${labels.staleData} (${sunMoonJson.provider ?? "unknown"}, ${sunMoonJson.date})` : null,
+        clockText:            clock ? formatTime(sunMoonJson.current_time, logger, locale) : null,
+        majorTimeTexts:       {
+            midnight:         formatHour(0, locale),
+            sixAm:            formatHour(6, locale),
+            noon:             formatHour(12, locale),
+            sixPm:            formatHour(18, locale)
+        },
+        sunState,
+        sunriseAngle,
+        sunsetAngle,
+        currentTimeAngle,
+        sunIsUp,
+        sunArcs,
+        sunTickAngles:        [...amEvents, ...pmEvents].map((event) => event.angle),
+        sunLabels,
+        moonrise:             sunMoonJson.moonrise,
+        moonset:              sunMoonJson.moonset,
+        moonriseLabel:        labels.moonrise,
+        moonsetLabel:         labels.moonset,
+        moonriseText:         hasMoonrise ? formatTime(sunMoonJson.moonrise, logger, locale) : labels.noEvent,
+        moonsetText:          hasMoonset  ? formatTime(sunMoonJson.moonset, logger, locale)  : labels.noEvent,
+        moonriseAngle,
+        moonsetAngle,
+        moonIsUp,
+        moonriseSlot:         moonSlots[moonriseQuadrant],
+        moonsetSlot:          moonSlots[moonsetQuadrant],
+        moonIllumination:     sunMoonJson.lunarIlluminationFraction ?? parseFloat(sunMoonJson.lunarIllumination ?? "50") / 100,
+        moonDiscRotation:     Math.atan2(-Math.cos(zenithRadians), -Math.sin(zenithRadians)),
+        moonPhaseText:        getPhaseName(locale, sunMoonJson.lunarPhase),
+        moonIlluminationText: sunMoonJson.lunarIllumination + (sunMoonJson.lunarWaxWane === "waxing" ? " +" : " -")
+    };
+}
+
+/**
+ * Outline of the lit part of the moon disc.  The lit part is bounded by the bright limb (a half circle)
+ * and the terminator (a half ellipse).  The bright limb faces +x, rotate by moonDiscRotation to draw.
+ * @param radius Radius of the disc
+ * @param illumination Fraction 0-1
+ * @returns Points relative to the center of the disc
+ */
+export function getMoonLitOutline(radius: number, illumination: number): Array<[number, number]> {
+    const terminatorX = radius * (1 - 2 * illumination);   // -radius when full, +radius when new
+    const steps = 36;
+    const points: Array<[number, number]> = [];
+    for (let i = 0; i <= steps; i++) {
+        const t = -Math.PI/2 + Math.PI * i/steps;            // Bright limb, top to bottom
+        points.push([radius * Math.cos(t), radius * Math.sin(t)]);
+    }
+    // The terminator ends at the limb's end points, they are not repeated so there are no zero length segments
+    for (let i = 1; i < steps; i++) {
+        const t = Math.PI/2 - Math.PI * i/steps;             // Terminator, bottom to top
+        points.push([terminatorX * Math.cos(t), radius * Math.sin(t)]);
+    }
+    return points;
+}
+
+/**
+ * Takes the time ("hh:mm") and converts to degrees (0-359).  Every minute is 4 degrees
+ * @param timeStr (hh:mm or hh:mm:ss)
+ * @param logger Logger for bad input
+ * @returns value in degrees 00:00 returns 0, 23:59 returns 359
+ */
+export function getAngle(timeStr: string, logger: LoggerInterface): number {
+    const timeElements: Array<string> = timeStr.split(":");
+    if (timeElements.length < 2 ||
+        isNaN(Number(timeElements[0])) ||
+        isNaN(Number(timeElements[1])) ||
+        Number(timeElements[0]) < 0 ||
+        Number(timeElements[0]) > 23 ||
+        Number(timeElements[1]) < 0 ||
+        Number(timeElements[1]) > 59) {
+        logger.warn(`Dial: getAngle() failed on input "${timeStr}"`);
+        return 0;
+    }
+    const angle = +timeElements[0] * 15 + +timeElements[1] / 4;
+
+    return angle;
+}
+
+/**
+ * Coverts an angle where 0 is striaght up, 180 is straight down to a rotation (clockwise)
+ * in radians from the X axis.  Used to calculate the angle needed in the arc().
+ *   Step 1 - CTX reference is offset 90 degrees (along the x axis), so subtract 90
+ *   Step 2 - take the modulus 360 so the result is 0-359
+ *   Step 3 - Convert to radians
+ * @param timeAngle angle in degrees 0-360
+ * @returns rotation in radions from the X axis clockwise
+ */
+export function getRenderAngle(timeAngle: number): number {
+    let renderAngle = timeAngle + 180 - 90;
+    renderAngle = renderAngle % 360;
+    renderAngle = renderAngle * Math.PI/180;
+    return renderAngle;
+}
+
+/**
+ * Formats the time for display.  For "22:45" returns "10:45 PM", or "22:45" if the locale uses 24 hour time
+ * @param timeStr time in 24 hour format (hh:mm or hh:mm:ss, hh:mm:ss:nnn)
+ * @param logger Logger for bad input
+ * @param locale Optional locale for 12 or 24 hour time and the AM/PM text.  Default is 12 hour time with AM/PM
+ * @returns Formatted string
+ */
+export function formatTime(timeStr: string, logger: LoggerInterface, locale?: Locale): string {
+    const timeElements: Array<string> = timeStr.split(":");
+    if (timeElements.length < 2 ||
+        isNaN(Number(timeElements[0])) ||
+        isNaN(Number(timeElements[1])) ||
+        Number(timeElements[0]) < 0 ||
+        Number(timeElements[0]) > 23 ||
+        Number(timeElements[1]) < 0 ||
+        Number(timeElements[1]) > 59) {
+        logger.warn(`Dial: formatTime() failed on input "${timeStr}`);
+        return "";
+    }
+    const min = +timeElements[1];
+    const minStr  = (min < 10)  ? `0${min}`  : `${min}`;
+
+    if (locale !== undefined && !locale.hour12) {
+        return `${`${+timeElements[0]}`.padStart(2, "0")}:${minStr}`;
+    }
+
+    let hour = +timeElements[0] % 12;
+    if (hour === 0)
+        hour = 12;
+
+    const amPmStr = (+timeElements[0] > 11) ? (locale?.labels.pm ?? "PM") : (locale?.labels.am ?? "AM");
+    return `${hour}:${minStr} ${amPmStr}`;
+}
+
+/**
+ * Formats a whole hour for the labels around the dial.  For 18 returns "6 PM", or "18:00" if the locale uses 24 hour time
+ * @param hour 0-23
+ * @param locale Locale for 12 or 24 hour time and the AM/PM text
+ * @returns Formatted string
+ */
+function formatHour(hour: number, locale: Locale): string {
+    if (!locale.hour12) {
+        return `${`${hour}`.padStart(2, "0")}:00`;
+    }
+    return `${hour % 12 === 0 ? 12 : hour % 12} ${hour > 11 ? locale.labels.pm : locale.labels.am}`;
+}
+
+/**
+ * Checks if a value is a usable "hh:mm" time, not missing or "-:-"
+ * @param timeStr Time in "hh:mm" (24 hour) format
+ * @returns true if the time can be drawn
+ */
+export function isTime(timeStr: string | undefined): boolean {
+    return typeof timeStr === "string" && /^\d{1,2}:\d{2}/.test(timeStr);
+}
+
+/**
+ * Formats the data's date, with the zone abbreviation (e.g.: "Sunday, November 7, 2021 EST") if the data has a time zone
+ * @param sunMoonJson Data with date in "YYYY-MM-DD" format
+ * @param locale Optional locale for the date format and the day and month names.  Default is English
+ * @returns The date text, the same on every host
+ */
+export function getDateText(sunMoonJson: SunMoonJson, locale: Locale = getLocale()): string {
+    const date = moment.utc(sunMoonJson.date, "YYYY-MM-DD", true);
+    if (!date.isValid()) {
+        return sunMoonJson.date;
+    }
+
+    const text = date.locale(locale.dateLocale).format(locale.dateFormat);
+    if (sunMoonJson.timeZone === undefined || moment.tz.zone(sunMoonJson.timeZone) === null) {
+        return text;
+    }
+    // The abbreviation in effect at noon, after any DST change at 2 AM
+    return `${text} ${moment.tz(`${sunMoonJson.date} 12:00`, "YYYY-MM-DD HH:mm", sunMoonJson.timeZone).format("z")}`;
+}
+
+/**
+ * Finds vertical positions for a column of labels as close as possible to the ideal positions
+ * while keeping at least spacing between them and staying within minY and maxY
+ * @param idealYs Preferred y for each label
+ * @param minY Top limit for the first label
+ * @param maxY Bottom limit for the last label
+ * @param spacing Minimum distance between labels
+ * @returns y for each label, in the same order as idealYs
+ */
+export function layoutLabels(idealYs: Array<number>, minY: number, maxY: number, spacing: number): Array<number> {
+    const order = idealYs.map((y, i) => i).sort((a, b) => idealYs[a] - idealYs[b]);
+    const ys = order.map((i) => Math.min(Math.max(idealYs[i], minY), maxY));
+
+    // Push down to remove overlaps, then push back up if we ran off the bottom
+    for (let i = 1; i < ys.length; i++) {
+        ys[i] = Math.max(ys[i], ys[i - 1] + spacing);
+    }
+    if (ys.length > 0 && ys[ys.length - 1] > maxY) {
+        ys[ys.length - 1] = maxY;
+        for (let i = ys.length - 2; i >= 0; i--) {
+            ys[i] = Math.min(ys[i], ys[i + 1] - spacing);
+        }
+    }
+
+    const result: Array<number> = new Array(idealYs.length);
+    order.forEach((index, i) => result[index] = ys[i]);
+    return result;
+}
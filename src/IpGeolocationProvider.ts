@@ -0,0 +1,53 @@
+import { LoggerInterface } from "./Logger";
+import { SunMoonJson } from "./SunMoonData";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { ApiClient, ApiClientOptions } from "./ApiClient";
+
+export interface IpGeolocationOptions extends ApiClientOptions {
+    baseUrl?: string;                // Default is https://api.ipgeolocation.io, e.g.: a proxy or a mock server
+}
+
+/**
+ * Gets the sun and moon data with a REST GET to api.ipgeolocation.io
+ * Ref: https://ipgeolocation.io/documentation/astronomy-api.html
+ */
+export class IpGeolocationProvider implements AstronomyProviderInterface {
+    public name = "ipgeolocation";
+    private logger: LoggerInterface;
+    private apiKey: string;
+    private baseUrl: string;
+    private client: ApiClient;
+
+    /**
+     * Constructor for IpGeolocationProvider
+     * @param logger Object that implements the LoggerInterface
+     * @param apiKey Key for https://api.ipgeolocation.io
+     * @param timeout Timeout for each GET in ms
+     * @param options Optional retry, backoff and request budget settings and the base URL
+     */
+    constructor(logger: LoggerInterface, apiKey: string, timeout = 20000, options: IpGeolocationOptions = {}) {
+        this.logger = logger;
+        this.apiKey = apiKey;
+        this.baseUrl = options.baseUrl ?? "https://api.ipgeolocation.io";
+        this.client = new ApiClient(logger, this.name, {timeout, ...options});
+    }
+
+    /**
+     * Get the sun and moon data for a location and date
+     * - Timeouts, 5xx and 429 are retried with backoff, see ApiClient
+     * - The API gives times in the location's own time zone unless time_zone is sent, so it always is
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Time zone for the times (e.g.: America/New_York)
+     * @param dateStr Date to get.  Format is: YYYY-MM-DD
+     * @param signal Optional signal to abort the request and its retries
+     * @returns SunMoonJson
+     * @throws ApiAuthError for a bad key, ApiQuotaError if over the rate limit or budget, ApiTransientError or ApiError
+     */
+    public async getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string, signal?: AbortSignal): Promise<SunMoonJson | null> {
+        const params = new URLSearchParams({apiKey: this.apiKey, lat: lat, long: lon, date: dateStr, time_zone: timeZone});
+        const url = `${this.baseUrl}/astronomy?${params}`;
+
+        return await this.client.getJson(url, this.apiKey, signal) as SunMoonJson;
+    }
+}
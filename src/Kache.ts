@@ -16,58 +16,177 @@ export interface KacheStorage {
 export interface KacheInterface {
     get(key: string): unknown;
     set(key: string, newItem: unknown, expirationTime: number): void;
+    delete(key: string): boolean;
+    clear(): void;
+    has(key: string): boolean;
+    keys(): Array<string>;
+}
+
+// Where Kache keeps its items between runs.  Kache holds everything in memory, the backend only loads and saves it all.
+export interface KacheBackend {
+    load(): KacheStorage | null;
+    save(storage: KacheStorage): void;
+    remove(): void;
+}
+
+export interface KacheOptions {
+    backend?: KacheBackend;          // Default is a FileKacheBackend for the path
+    path?: string;                   // File for the default backend, default is the cache name in the current directory
+    maxEntries?: number;             // Least recently used items are evicted past this, default 0 is no limit
+    sweepIntervalMs?: number;        // How often expired items are removed, default 10 minutes, 0 to only remove them on load
+    writeDelayMs?: number;           // Sets within this time are saved together, default 1000.  Pending saves are written on exit,
+                                     // but not when killed by a signal, so call flush() or close() when shutting down
+}
+
+const DEFAULT_SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_WRITE_DELAY_MS    = 1000;
+
+// Kaches with unsaved changes, saved synchronously if the process exits before their write timer fires
+const pendingSaves = new Set<Kache>();
+let exitHandlerInstalled = false;
+
+/**
+ * @returns true if the value loaded from a backend has the shape of a KacheItem
+ */
+function isKacheItem(value: unknown): value is KacheItem {
+    const cacheItem = value as KacheItem;
+    return value !== null && typeof value === "object" && Number.isFinite(cacheItem.expiration) && "item" in value;
+}
+
+/**
+ * Keeps the items only in memory, nothing survives the process
+ */
+export class MemoryKacheBackend implements KacheBackend {
+    public load(): KacheStorage | null {
+        return null;
+    }
+
+    public save(storage: KacheStorage): void {
+        // Nothing to do
+    }
+
+    public remove(): void {
+        // Nothing to do
+    }
+}
+
+/**
+ * Keeps the items in a JSON file
+ * - Writes go to a temp file that is renamed over the old one, so a crash leaves either the old or the new file, never half of one
+ */
+export class FileKacheBackend implements KacheBackend {
+    private logger: LoggerInterface;
+    private filePath: string;
+
+    /**
+     * Constructor for FileKacheBackend
+     * @param logger Object that implements the LoggerInterface
+     * @param filePath Cache file, relative paths are from the current directory
+     */
+    constructor(logger: LoggerInterface, filePath: string) {
+        this.logger = logger;
+        this.filePath = path.resolve(filePath);
+    }
+
+    public load(): KacheStorage | null {
+        let cacheData: string;
+        try {
+            cacheData = fs.readFileSync(this.filePath, "utf8");
+        } catch (e) {
+            return null;
+        }
+
+        try {
+            return JSON.parse(cacheData);
+        } catch (e) {
+            this.logger.warn(`Cache: ${this.filePath} is not valid JSON, starting empty`);
+            return null;
+        }
+    }
+
+    public save(storage: KacheStorage): void {
+        const tempPath = `${this.filePath}.${process.pid}.tmp`;
+        try {
+            fs.writeFileSync(tempPath, JSON.stringify(storage, null, 4));
+            fs.renameSync(tempPath, this.filePath);
+        } catch (e) {
+            this.logger.error(`Cache: Failed to write ${this.filePath}: ${e}`);
+            fs.rmSync(tempPath, { force: true });
+        }
+    }
+
+    public remove(): void {
+        fs.rmSync(this.filePath, { force: true });
+    }
 }
 
 export class Kache implements KacheInterface {
-    private cacheStorage: KacheStorage; 
+    // Map iteration is insertion order, get() moves an item to the end so the first item is the least recently used
+    private cacheStorage = new Map<string, KacheItem>();
     private cacheName: string;
-    private cachePath: string;
+    private backend: KacheBackend;
+    private maxEntries: number;
+    private writeDelayMs: number;
+    private writeTimer: NodeJS.Timeout | null = null;
+    private sweepTimer: NodeJS.Timeout | null = null;
 
     private logger: LoggerInterface;
 
-    constructor(logger: LoggerInterface, cacheName: string) {
+    /**
+     * Constructor for Kache
+     * @param logger Object that implements the LoggerInterface
+     * @param cacheName Name for the log and the default file (e.g.: "sunmoon-cache.json")
+     * @param options Optional backend, file path, size limit and timing
+     */
+    constructor(logger: LoggerInterface, cacheName: string, options: KacheOptions = {}) {
         this.logger = logger;
         this.cacheName = cacheName;
-        this.cachePath = path.resolve(__dirname, "..", this.cacheName);
-        this.cacheStorage = {};
+        this.backend = options.backend ?? new FileKacheBackend(logger, options.path ?? cacheName);
+        this.maxEntries = options.maxEntries ?? 0;
+        this.writeDelayMs = options.writeDelayMs ?? DEFAULT_WRITE_DELAY_MS;
 
-        try {
-            const cacheData: Buffer | null | undefined = fs.readFileSync(this.cachePath);
-            if (cacheData !== undefined && cacheData !== null) {
-                this.logger.verbose(`Cache: Using: ${this.cacheName}`); // ${JSON.stringify(this.cacheStorage, null, 4)}`);
-  
-                this.cacheStorage = JSON.parse(cacheData.toString());
-
-                for (const [key, value] of Object.entries(this.cacheStorage)) {
-                    const cacheItem = this.cacheStorage[key];
-        
-                    if (cacheItem.expiration < new Date().getTime()) {
-                        this.logger.info(`Cache load: '${key}' has expired, deleting`);
-                        delete this.cacheStorage[key];
-                    } else {
-                        this.logger.verbose(`Cache load: '${key}' still good.`);
-                    }
+        if (!Number.isInteger(this.maxEntries) || this.maxEntries < 0) {
+            throw new RangeError(`Kache: maxEntries ${this.maxEntries} must be a whole number, 0 for no limit`);
+        }
+
+        const cacheData = this.backend.load();
+        if (cacheData !== null && typeof cacheData === "object" && !Array.isArray(cacheData)) {
+            this.logger.verbose(`Cache: Using: ${this.cacheName}`);
+
+            const now = Date.now();
+            for (const [key, cacheItem] of Object.entries(cacheData)) {
+                // The file may have been edited or written by something else
+                if (!isKacheItem(cacheItem)) {
+                    this.logger.warn(`Cache load: '${key}' is not a cache item, deleting`);
+                } else if (cacheItem.expiration < now) {
+                    this.logger.info(`Cache load: '${key}' has expired, deleting`);
+                } else {
+                    this.logger.verbose(`Cache load: '${key}' still good.`);
+                    this.cacheStorage.set(key, cacheItem);
                 }
-            } else {
-                this.logger.verbose(`Cache: Creating new: ${this.cacheName}`);
             }
-        } catch (e) {
+            this.evict();
+        } else {
             this.logger.verbose(`Cache: Creating new: ${this.cacheName}`);
         }
+
+        const sweepIntervalMs = options.sweepIntervalMs ?? DEFAULT_SWEEP_INTERVAL_MS;
+        if (sweepIntervalMs > 0) {
+            // Does not keep the process running on its own
+            this.sweepTimer = setInterval(() => this.sweep(), sweepIntervalMs);
+            this.sweepTimer.unref();
+        }
     }
 
     public get(key: string): unknown {
-        if (this.cacheStorage[key] !== undefined) {
-            const cacheItem: KacheItem = this.cacheStorage[key as keyof KacheStorage];
-
-            const expiration: number = cacheItem.expiration;
-            const item: unknown    = cacheItem.item;
-
-            const now = new Date();
-            if (expiration > now.getTime()) {
-                // object is current
+        const cacheItem = this.cacheStorage.get(key);
+        if (cacheItem !== undefined) {
+            if (cacheItem.expiration > Date.now()) {
+                // object is current, now the most recently used
                 this.logger.verbose(`Cache: Key: '${key}' - cache hit`);
-                return item;
+                this.cacheStorage.delete(key);
+                this.cacheStorage.set(key, cacheItem);
+                return cacheItem.item;
             } else {
                 // object expired
                 this.logger.verbose(`Cache: Key: '${key}' - cache expired`);
@@ -83,10 +202,126 @@ export class Kache implements KacheInterface {
         const comment: string = new Date(expirationTime).toString();
         this.logger.verbose(`Cache set: Key: ${key}, exp: ${comment}`);
 
-        const cacheItem = {expiration: expirationTime, comment: comment, item: newItem};
-        this.cacheStorage[key as keyof KacheStorage] =  cacheItem;
+        this.cacheStorage.delete(key);
+        this.cacheStorage.set(key, {expiration: expirationTime, comment: comment, item: newItem});
+        this.evict();
+        this.scheduleSave();
+    }
+
+    public delete(key: string): boolean {
+        const deleted = this.cacheStorage.delete(key);
+        if (deleted) {
+            this.scheduleSave();
+        }
+        return deleted;
+    }
+
+    /**
+     * Remove every item and the backend's copy (e.g.: the cache file)
+     */
+    public clear(): void {
+        this.cacheStorage.clear();
+        this.cancelSave();
+        this.backend.remove();
+    }
+
+    /**
+     * @returns true if there is an item for the key that has not expired
+     */
+    public has(key: string): boolean {
+        const cacheItem = this.cacheStorage.get(key);
+        return cacheItem !== undefined && cacheItem.expiration > Date.now();
+    }
+
+    /**
+     * @returns Keys of the items that have not expired, least recently used first
+     */
+    public keys(): Array<string> {
+        const now = Date.now();
+        return [...this.cacheStorage].filter(([, cacheItem]) => cacheItem.expiration > now).map(([key]) => key);
+    }
+
+    /**
+     * Remove the expired items now instead of waiting for the next sweep
+     * @returns Number of items removed
+     */
+    public sweep(): number {
+        const now = Date.now();
+        let removed = 0;
+        for (const [key, cacheItem] of this.cacheStorage) {
+            if (cacheItem.expiration <= now) {
+                this.cacheStorage.delete(key);
+                removed++;
+            }
+        }
+
+        if (removed > 0) {
+            this.logger.verbose(`Cache: Swept ${removed} expired items from ${this.cacheName}`);
+            this.scheduleSave();
+        }
+        return removed;
+    }
+
+    /**
+     * Save any pending changes now
+     */
+    public flush(): void {
+        if (this.writeTimer === null && !pendingSaves.has(this)) {
+            return;
+        }
+        this.cancelSave();
+        this.backend.save(Object.fromEntries(this.cacheStorage));
+    }
 
-        // Does this need to be synchronous?
-        fs.writeFileSync(this.cachePath, JSON.stringify(this.cacheStorage, null, 4));
+    /**
+     * Save any pending changes and stop the sweep timer
+     */
+    public close(): void {
+        if (this.sweepTimer !== null) {
+            clearInterval(this.sweepTimer);
+            this.sweepTimer = null;
+        }
+        this.flush();
+    }
+
+    // Drop the least recently used items past maxEntries
+    private evict(): void {
+        if (this.maxEntries === 0) {
+            return;
+        }
+
+        for (const key of this.cacheStorage.keys()) {
+            if (this.cacheStorage.size <= this.maxEntries) {
+                break;
+            }
+            this.logger.verbose(`Cache: Key: '${key}' - evicted, over ${this.maxEntries} items`);
+            this.cacheStorage.delete(key);
+        }
     }
-}
\ No newline at end of file
+
+    // Save once for all the changes in the next writeDelayMs instead of writing the whole store on every set()
+    private scheduleSave(): void {
+        if (!exitHandlerInstalled) {
+            exitHandlerInstalled = true;
+            process.once("exit", () => {
+                for (const kache of pendingSaves) {
+                    kache.flush();
+                }
+            });
+        }
+
+        pendingSaves.add(this);
+        if (this.writeTimer === null) {
+            this.writeTimer = setTimeout(() => this.flush(), this.writeDelayMs);
+            this.writeTimer.unref();
+        }
+    }
+
+    private cancelSave(): void {
+        if (this.writeTimer !== null) {
+            clearTimeout(this.writeTimer);
+            this.writeTimer = null;
+        }
+        pendingSaves.delete(this);
+    }
+}
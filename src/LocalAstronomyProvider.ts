@@ -0,0 +1,265 @@
+import moment from "moment-timezone";  // https://momentjs.com/timezone/docs/ &  https://momentjs.com/docs/
+import { LoggerInterface } from "./Logger";
+import { SunMoonJson, SunState } from "./SunMoonData";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { NO_EVENT } from "./SunMoonSchema";
+import * as astro from "./Astronomy";
+
+const MSEC_PER_MIN = 60 * 1000;
+
+export interface Twilight {
+    civilDawn: string;
+    civilDusk: string;
+    nauticalDawn: string;
+    nauticalDusk: string;
+    astronomicalDawn: string;
+    astronomicalDusk: string;
+}
+
+export interface Positions {
+    sun_altitude: number;
+    sun_distance: number;
+    sun_azimuth: number;
+    moon_altitude: number;
+    moon_distance: number;
+    moon_azimuth: number;
+    moon_parallactic_angle: number;
+}
+
+/**
+ * Computes the same data that api.ipgeolocation.io/astronomy returns, locally, with no network or API key.
+ * Times are reported in the requested time zone as "HH:mm" and "-:-" is used when an event does not occur
+ * that day, matching the ipgeolocation format.
+ */
+export class LocalAstronomyProvider implements AstronomyProviderInterface {
+    public name = "local";
+    private logger: LoggerInterface;
+
+    constructor(logger: LoggerInterface) {
+        this.logger = logger;
+    }
+
+    /**
+     * Calculate the sun and moon data for a location and date
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone (e.g.: "America/New_York")
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     * @returns SunMoonJson or null if the parameters are not usable
+     */
+    public async getSunMoonJson(lat: string, lon: string, timeZone: string, dateStr: string): Promise<SunMoonJson | null> {
+        const latitude = Number(lat);
+        const longitude = Number(lon);
+
+        if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+            this.logger.warn(`LocalAstronomyProvider: Invalid location lat: ${lat}, lon: ${lon}`);
+            return null;
+        }
+
+        if (moment.tz.zone(timeZone) === null) {
+            this.logger.warn(`LocalAstronomyProvider: Unknown time zone: ${timeZone}`);
+            return null;
+        }
+
+        const dayStart = moment.tz(dateStr, "YYYY-MM-DD", true, timeZone);
+        if (!dayStart.isValid()) {
+            this.logger.warn(`LocalAstronomyProvider: Invalid date: ${dateStr}`);
+            return null;
+        }
+
+        // The local day may be 23 or 25 hours long on DST transition days
+        const dayEnd = dayStart.clone().add(1, "day");
+        const startJd = astro.toJulianDay(dayStart.toDate());
+        const endJd = astro.toJulianDay(dayEnd.toDate());
+
+        const sunAltitude = (jd: number): number =>
+            astro.toHorizontal(astro.sunPosition(jd), jd, latitude, longitude).altitude - astro.SUN_RISE_SET_ALTITUDE;
+
+        const moonAltitude = (jd: number): number => {
+            const pos = astro.moonPosition(jd);
+            return astro.toHorizontal(pos, jd, latitude, longitude).altitude - astro.moonRiseSetAltitude(pos.distance);
+        };
+
+        const sun = astro.findRiseSet(sunAltitude, startJd, endJd);
+        const moon = astro.findRiseSet(moonAltitude, startJd, endJd);
+        const solarNoon = this.getSolarNoon(longitude, startJd, endJd);
+
+        // Positions are reported for the current time of day on the requested date
+        const currentTime = moment().tz(timeZone).format("HH:mm:ss.SSS");
+
+        return {
+            date: dateStr,
+            current_time: currentTime,
+            sunrise: this.formatJd(sun.rise, timeZone),
+            sunset: this.formatJd(sun.set, timeZone),
+            sun_status: "-",
+            solar_noon: this.formatJd(solarNoon, timeZone),
+            day_length: this.getDayLength(sun.rise, sun.set),
+            moonrise: this.formatJd(moon.rise, timeZone),
+            moonset: this.formatJd(moon.set, timeZone),
+            moon_status: "-",
+            ...this.getPositions(latitude, longitude, timeZone, dateStr, currentTime)
+        };
+    }
+
+    /**
+     * Calculate where the sun and moon are at a time of day on a date
+     * - On the day DST starts, a time in the skipped hour is taken as the same time after the change
+     * @param latitude lattitude in decimal degrees north
+     * @param longitude longitude in decimal degrees east
+     * @param timeZone Time zone of the date and time (e.g.: "America/New_York")
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     * @param time Time of day in the time zone.  Format is: HH:mm:ss.SSS
+     * @returns Altitudes, azimuths and distances in the SunMoonJson fields
+     */
+    public getPositions(latitude: number, longitude: number, timeZone: string, dateStr: string, time: string): Positions {
+        const current = moment.tz(`${dateStr} ${time}`, "YYYY-MM-DD HH:mm:ss.SSS", timeZone);
+        const currentJd = astro.toJulianDay(current.toDate());
+
+        const sunPos = astro.sunPosition(currentJd);
+        const sunHorizontal = astro.toHorizontal(sunPos, currentJd, latitude, longitude);
+        const moonPos = astro.moonPosition(currentJd);
+        const moonHorizontal = astro.toHorizontal(moonPos, currentJd, latitude, longitude);
+
+        return {
+            sun_altitude: sunHorizontal.altitude,
+            sun_distance: sunPos.distance,
+            sun_azimuth: sunHorizontal.azimuth,
+            moon_altitude: moonHorizontal.altitude - astro.moonParallax(moonPos.distance) * Math.cos(moonHorizontal.altitude * Math.PI / 180),
+            moon_distance: moonPos.distance,
+            moon_azimuth: moonHorizontal.azimuth,
+            moon_parallactic_angle: astro.parallacticAngle(moonPos, currentJd, latitude, longitude)
+        };
+    }
+
+    /**
+     * Calculate the start (dawn) and end (dusk) of civil, nautical and astronomical twilight.
+     * Dawn is searched for in the 12 hours before solar noon and dusk in the 12 hours after so
+     * a dusk after midnight (or dawn before midnight) is still reported for this day.
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone (e.g.: "America/New_York")
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     * @returns Twilight times as "HH:mm", "-:-" if the sun does not cross that depression angle, or null
+     */
+    public getTwilight(lat: string, lon: string, timeZone: string, dateStr: string): Twilight | null {
+        const latitude = Number(lat);
+        const longitude = Number(lon);
+        const dayStart = moment.tz(dateStr, "YYYY-MM-DD", true, timeZone);
+
+        if (isNaN(latitude) || isNaN(longitude) || moment.tz.zone(timeZone) === null || !dayStart.isValid()) {
+            this.logger.warn(`LocalAstronomyProvider: getTwilight() invalid input lat: ${lat}, lon: ${lon}, tz: ${timeZone}, date: ${dateStr}`);
+            return null;
+        }
+
+        const startJd = astro.toJulianDay(dayStart.toDate());
+        const endJd = astro.toJulianDay(dayStart.clone().add(1, "day").toDate());
+        const noonJd = this.getSolarNoon(longitude, startJd, endJd) ?? (startJd + endJd) / 2;
+
+        const crossings = (depression: number): {dawn: string, dusk: string} => {
+            const altitude = (jd: number): number => astro.toHorizontal(astro.sunPosition(jd), jd, latitude, longitude).altitude - depression;
+            return {
+                dawn: this.formatJd(astro.findRiseSet(altitude, noonJd - 0.5, noonJd).rise, timeZone),
+                dusk: this.formatJd(astro.findRiseSet(altitude, noonJd, noonJd + 0.5).set, timeZone)
+            };
+        };
+
+        const civil = crossings(astro.CIVIL_TWILIGHT_ALTITUDE);
+        const nautical = crossings(astro.NAUTICAL_TWILIGHT_ALTITUDE);
+        const astronomical = crossings(astro.ASTRONOMICAL_TWILIGHT_ALTITUDE);
+
+        return {
+            civilDawn: civil.dawn,
+            civilDusk: civil.dusk,
+            nauticalDawn: nautical.dawn,
+            nauticalDusk: nautical.dusk,
+            astronomicalDawn: astronomical.dawn,
+            astronomicalDusk: astronomical.dusk
+        };
+    }
+
+    /**
+     * Classify the day by how high the sun gets at solar noon and how low at solar midnight
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone (e.g.: "America/New_York")
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     * @returns "normal", "always-up" (polar day), "twilight-only" or "always-down" (polar night), null if the input is invalid
+     */
+    public getSunState(lat: string, lon: string, timeZone: string, dateStr: string): SunState | null {
+        const latitude = Number(lat);
+        const longitude = Number(lon);
+        const dayStart = moment.tz(dateStr, "YYYY-MM-DD", true, timeZone);
+
+        if (isNaN(latitude) || isNaN(longitude) || moment.tz.zone(timeZone) === null || !dayStart.isValid()) {
+            this.logger.warn(`LocalAstronomyProvider: getSunState() invalid input lat: ${lat}, lon: ${lon}, tz: ${timeZone}, date: ${dateStr}`);
+            return null;
+        }
+
+        const startJd = astro.toJulianDay(dayStart.toDate());
+        const endJd = astro.toJulianDay(dayStart.clone().add(1, "day").toDate());
+        const noonJd = this.getSolarNoon(longitude, startJd, endJd) ?? (startJd + endJd) / 2;
+
+        const altitude = (jd: number): number => astro.toHorizontal(astro.sunPosition(jd), jd, latitude, longitude).altitude;
+        const highest = altitude(noonJd);
+        const lowest = Math.min(altitude(noonJd - 0.5), altitude(noonJd + 0.5));
+
+        if (lowest > astro.SUN_RISE_SET_ALTITUDE) {
+            return "always-up";
+        } else if (highest < astro.SUN_RISE_SET_ALTITUDE) {
+            return (highest > astro.ASTRONOMICAL_TWILIGHT_ALTITUDE) ? "twilight-only" : "always-down";
+        }
+        return "normal";
+    }
+
+    /**
+     * Find the solar transit that falls within the local day
+     * @param longitude Observer longitude in degrees east
+     * @param startJd Start of the local day
+     * @param endJd End of the local day
+     * @returns Julian day of solar noon or null (never expected outside of DST edge cases)
+     */
+    private getSolarNoon(longitude: number, startJd: number, endJd: number): number | null {
+        // Transits are computed per UT day so check the UT days either side of the local day
+        const utDay = Math.floor(startJd - 0.5) + 0.5;
+        for (let offset = -1; offset <= 1; offset++) {
+            const transit = astro.solarTransit(utDay + offset, longitude);
+            if (transit >= startJd && transit < endJd) {
+                return transit;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Format a Julian day as "HH:mm" in the time zone
+     * @param jd Julian day or null
+     * @param timeZone IANA time zone
+     * @returns "HH:mm" or "-:-" if jd is null
+     */
+    private formatJd(jd: number | null, timeZone: string): string {
+        if (jd === null) {
+            return NO_EVENT;
+        }
+        return moment(astro.fromJulianDay(jd)).tz(timeZone).format("HH:mm");
+    }
+
+    /**
+     * Get the time between sunrise and sunset
+     * @param rise Julian day of sunrise or null
+     * @param set Julian day of sunset or null
+     * @returns "HH:mm" or "-:-" if there is not both a sunrise and a sunset
+     */
+    private getDayLength(rise: number | null, set: number | null): string {
+        if (rise === null || set === null) {
+            return NO_EVENT;
+        }
+        let minutes = Math.round((astro.fromJulianDay(set).getTime() - astro.fromJulianDay(rise).getTime()) / MSEC_PER_MIN);
+        if (minutes < 0) {
+            minutes += 24 * 60;  // Sunset came before sunrise in this local day
+        }
+        const hours = Math.floor(minutes / 60);
+        const mins = minutes % 60;
+        return `${hours < 10 ? "0" : ""}${hours}:${mins < 10 ? "0" : ""}${mins}`;
+    }
+}
@@ -0,0 +1,371 @@
+import fs = require("fs");
+import moment from "moment-timezone";
+
+// Loading a moment locale also makes it the global locale.  The locales are loaded here, not with import
+// which runs first, so the app's global locale can be put back as it was.
+const appLocale = moment.locale();
+for (const name of ["de", "fr", "es"]) {
+    require(`moment/locale/${name}`);
+}
+moment.locale(appLocale);
+
+// Every string the dial draws.  title has a {location} placeholder.
+export interface LocaleLabels {
+    title: string;
+    sunrise: string;
+    sunset: string;
+    civilDawn: string;
+    civilDusk: string;
+    nauticalDawn: string;
+    nauticalDusk: string;
+    astronomicalDawn: string;
+    astronomicalDusk: string;
+    midnightSun: string;
+    sunUpAllDay: string;
+    polarNight: string;
+    twilightOnly: string;
+    sunDownAllDay: string;
+    moonrise: string;                   // Next to the moonrise time on the dial
+    moonset: string;
+    noEvent: string;                    // In place of the time if the moon does not rise or set
+    staleData: string;
+    am: string;                         // Only used for 12 hour time
+    pm: string;
+}
+
+export interface LocalePhases {
+    newMoon: string;
+    waxingCrescent: string;
+    firstQuarter: string;
+    waxingGibbous: string;
+    fullMoon: string;
+    waningGibbous: string;
+    lastQuarter: string;
+    waningCrescent: string;
+}
+
+export interface Locale {
+    name: string;
+    dateLocale: string;                 // moment locale for the month and day names (e.g.: "de"), must be loaded
+    dateFormat: string;                 // moment format for the date (e.g.: "dddd, D. MMMM YYYY")
+    hour12: boolean;                    // "6:11 PM" if true, "18:11" if false
+    labels: LocaleLabels;
+    phases: LocalePhases;
+}
+
+// A custom locale file only needs the values that differ from its base locale
+export interface LocaleFile {
+    name?: string;
+    base?: string;                      // Name of a built-in locale, default is "en"
+    dateLocale?: string;
+    dateFormat?: string;
+    hour12?: boolean;
+    labels?: Partial<LocaleLabels>;
+    phases?: Partial<LocalePhases>;
+}
+
+export class LocaleError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "LocaleError";
+    }
+}
+
+const english: Locale = {
+    name: "en",
+    dateLocale: "en",
+    dateFormat: "dddd, MMMM D, YYYY",
+    hour12: true,
+    labels: {
+        title:            "Sun & Moon Times for {location}",
+        sunrise:          "Sunrise",
+        sunset:           "Sunset",
+        civilDawn:        "Civil dawn",
+        civilDusk:        "Civil dusk",
+        nauticalDawn:     "Nautical dawn",
+        nauticalDusk:     "Nautical dusk",
+        astronomicalDawn: "Astronomical dawn",
+        astronomicalDusk: "Astronomical dusk",
+        midnightSun:      "Midnight sun",
+        sunUpAllDay:      "Sun up all day",
+        polarNight:       "Polar night",
+        twilightOnly:     "Twilight only",
+        sunDownAllDay:    "Sun down all day",
+        moonrise:         "Rise",
+        moonset:          "Set",
+        noEvent:          "None",
+        staleData:        "Stale data",
+        am:               "AM",
+        pm:               "PM"
+    },
+    phases: {
+        newMoon:          "New Moon",
+        waxingCrescent:   "Waxing Crescent",
+        firstQuarter:     "First Quarter",
+        waxingGibbous:    "Waxing Gibbous",
+        fullMoon:         "Full Moon",
+        waningGibbous:    "Waning Gibbous",
+        lastQuarter:      "Last Quarter",
+        waningCrescent:   "Waning Crescent"
+    }
+};
+
+const german: Locale = {
+    name: "de",
+    dateLocale: "de",
+    dateFormat: "dddd, D. MMMM YYYY",
+    hour12: false,
+    labels: {
+        title:            "Sonne und Mond in {location}",
+        sunrise:          "Sonnenaufgang",
+        sunset:           "Sonnenuntergang",
+        civilDawn:        "Bürgerl. Dämmerung",
+        civilDusk:        "Bürgerl. Dämmerung",
+        nauticalDawn:     "Naut. Dämmerung",
+        nauticalDusk:     "Naut. Dämmerung",
+        astronomicalDawn: "Astron. Dämmerung",
+        astronomicalDusk: "Astron. Dämmerung",
+        midnightSun:      "Mitternachtssonne",
+        sunUpAllDay:      "Kein Untergang",
+        polarNight:       "Polarnacht",
+        twilightOnly:     "Nur Dämmerung",
+        sunDownAllDay:    "Kein Aufgang",
+        moonrise:         "Aufgang",
+        moonset:          "Untergang",
+        noEvent:          "Keiner",
+        staleData:        "Veraltete Daten",
+        am:               "AM",
+        pm:               "PM"
+    },
+    phases: {
+        newMoon:          "Neumond",
+        waxingCrescent:   "Zunehmende Sichel",
+        firstQuarter:     "Erstes Viertel",
+        waxingGibbous:    "Zunehmender Mond",
+        fullMoon:         "Vollmond",
+        waningGibbous:    "Abnehmender Mond",
+        lastQuarter:      "Letztes Viertel",
+        waningCrescent:   "Abnehmende Sichel"
+    }
+};
+
+const french: Locale = {
+    name: "fr",
+    dateLocale: "fr",
+    dateFormat: "dddd D MMMM YYYY",
+    hour12: false,
+    labels: {
+        title:            "Soleil et Lune à {location}",
+        sunrise:          "Lever du soleil",
+        sunset:           "Coucher du soleil",
+        civilDawn:        "Aube civile",
+        civilDusk:        "Crépuscule civil",
+        nauticalDawn:     "Aube nautique",
+        nauticalDusk:     "Crépuscule nautique",
+        astronomicalDawn: "Aube astronomique",
+        astronomicalDusk: "Crépuscule astron.",
+        midnightSun:      "Soleil de minuit",
+        sunUpAllDay:      "Soleil toujours levé",
+        polarNight:       "Nuit polaire",
+        twilightOnly:     "Crépuscule seul",
+        sunDownAllDay:    "Soleil toujours couché",
+        moonrise:         "Lever",
+        moonset:          "Coucher",
+        noEvent:          "Aucun",
+        staleData:        "Données périmées",
+        am:               "AM",
+        pm:               "PM"
+    },
+    phases: {
+        newMoon:          "Nouvelle lune",
+        waxingCrescent:   "Premier croissant",
+        firstQuarter:     "Premier quartier",
+        waxingGibbous:    "Gibbeuse croissante",
+        fullMoon:         "Pleine lune",
+        waningGibbous:    "Gibbeuse décroissante",
+        lastQuarter:      "Dernier quartier",
+        waningCrescent:   "Dernier croissant"
+    }
+};
+
+const spanish: Locale = {
+    name: "es",
+    dateLocale: "es",
+    dateFormat: "dddd, D [de] MMMM [de] YYYY",
+    hour12: false,
+    labels: {
+        title:            "Sol y Luna en {location}",
+        sunrise:          "Salida del sol",
+        sunset:           "Puesta del sol",
+        civilDawn:        "Alba civil",
+        civilDusk:        "Ocaso civil",
+        nauticalDawn:     "Alba náutica",
+        nauticalDusk:     "Ocaso náutico",
+        astronomicalDawn: "Alba astronómica",
+        astronomicalDusk: "Ocaso astronómico",
+        midnightSun:      "Sol de medianoche",
+        sunUpAllDay:      "Sol todo el día",
+        polarNight:       "Noche polar",
+        twilightOnly:     "Solo crepúsculo",
+        sunDownAllDay:    "Sin sol en todo el día",
+        moonrise:         "Salida",
+        moonset:          "Puesta",
+        noEvent:          "Ninguna",
+        staleData:        "Datos antiguos",
+        am:               "a. m.",
+        pm:               "p. m."
+    },
+    phases: {
+        newMoon:          "Luna nueva",
+        waxingCrescent:   "Luna creciente",
+        firstQuarter:     "Cuarto creciente",
+        waxingGibbous:    "Gibosa creciente",
+        fullMoon:         "Luna llena",
+        waningGibbous:    "Gibosa menguante",
+        lastQuarter:      "Cuarto menguante",
+        waningCrescent:   "Luna menguante"
+    }
+};
+
+const builtInLocales: {[name: string]: Locale} = {
+    "en": english,
+    "de": german,
+    "fr": french,
+    "es": spanish
+};
+
+// Phase names as the providers and older cached data write them, with everything but the letters removed
+const PHASE_NAMES: {[name: string]: keyof LocalePhases} = {
+    "newmoon":        "newMoon",
+    "waxingcrescent": "waxingCrescent",
+    "firstquarter":   "firstQuarter",
+    "waxinggibbous":  "waxingGibbous",
+    "fullmoon":       "fullMoon",
+    "waninggibbous":  "waningGibbous",
+    "waninggibbus":   "waningGibbous",
+    "lastquarter":    "lastQuarter",
+    "thirdquarter":   "lastQuarter",
+    "waningcrescent": "waningCrescent"
+};
+
+/**
+ * @returns The names of the built-in locales (e.g.: ["en", "de", "fr", "es"])
+ */
+export function getLocaleNames(): Array<string> {
+    return Object.keys(builtInLocales);
+}
+
+/**
+ * Gets a locale by name, from a JSON file, or checks a Locale object
+ * @param locale Built-in locale name, path to a .json locale file or a Locale object.  Default is "en"
+ * @returns A validated copy of the locale
+ * @throws LocaleError if the locale is unknown or not valid
+ */
+export function getLocale(locale: Locale | string = "en"): Locale {
+    if (typeof locale !== "string") {
+        return validateLocale(locale);
+    }
+
+    // Own keys only, "constructor" or "toString" must not find something on Object.prototype
+    if (Object.hasOwn(builtInLocales, locale)) {
+        return validateLocale(builtInLocales[locale]);
+    }
+
+    if (locale.toLowerCase().endsWith(".json")) {
+        return loadLocale(locale);
+    }
+
+    throw new LocaleError(`Unknown locale "${locale}", expected one of: ${getLocaleNames().join(", ")} or a .json file`);
+}
+
+/**
+ * Loads a custom locale from a JSON file.  Values not in the file come from the base locale.
+ * @param fileName Path to the JSON file (see LocaleFile)
+ * @returns A validated locale
+ * @throws LocaleError if the file can't be read or the locale is not valid
+ */
+export function loadLocale(fileName: string): Locale {
+    let localeFile: LocaleFile;
+    try {
+        localeFile = JSON.parse(fs.readFileSync(fileName).toString()) as LocaleFile;
+    } catch (e) {
+        throw new LocaleError(`Unable to read locale file "${fileName}": ${e instanceof Error ? e.message : e}`);
+    }
+
+    if (localeFile === null || typeof localeFile !== "object" || Array.isArray(localeFile)) {
+        throw new LocaleError(`Locale file "${fileName}" must contain a JSON object`);
+    }
+
+    const baseName = localeFile.base ?? "en";
+    if (typeof baseName !== "string" || !Object.hasOwn(builtInLocales, baseName)) {
+        throw new LocaleError(`Locale file "${fileName}": unknown base locale "${baseName}", expected one of: ${getLocaleNames().join(", ")}`);
+    }
+    const base = builtInLocales[baseName];
+
+    return validateLocale({
+        name:       localeFile.name ?? fileName,
+        dateLocale: localeFile.dateLocale ?? base.dateLocale,
+        dateFormat: localeFile.dateFormat ?? base.dateFormat,
+        hour12:     localeFile.hour12 ?? base.hour12,
+        labels:     { ...base.labels, ...localeFile.labels },
+        phases:     { ...base.phases, ...localeFile.phases }
+    });
+}
+
+/**
+ * Finds the translated name of the moon phase in the data
+ * @param locale Locale with the phase names
+ * @param phase Phase name from the data (e.g.: "Waxing Gibbous" or "WAXING_GIBBOUS")
+ * @returns The translated name, or the name from the data if it is not a known phase
+ */
+export function getPhaseName(locale: Locale, phase: string | undefined): string {
+    const name = (phase ?? "").toLowerCase().replace(/[^a-z]/g, "");
+    return Object.hasOwn(PHASE_NAMES, name) ? locale.phases[PHASE_NAMES[name]] : phase ?? "";
+}
+
+/**
+ * Checks that every string the dial needs is present
+ * @param locale Locale to check
+ * @returns A copy of the locale
+ * @throws LocaleError describing the first problem found
+ */
+function validateLocale(locale: Locale): Locale {
+    const name = locale?.name ?? "unnamed";
+
+    for (const key of Object.keys(english.labels) as Array<keyof LocaleLabels>) {
+        if (typeof locale.labels?.[key] !== "string") {
+            throw new LocaleError(`Locale "${name}": labels.${key} is ${JSON.stringify(locale.labels?.[key])}, expected a string`);
+        }
+    }
+
+    for (const key of Object.keys(english.phases) as Array<keyof LocalePhases>) {
+        if (typeof locale.phases?.[key] !== "string") {
+            throw new LocaleError(`Locale "${name}": phases.${key} is ${JSON.stringify(locale.phases?.[key])}, expected a string`);
+        }
+    }
+
+    if (typeof locale.dateLocale !== "string" || !moment.locales().includes(locale.dateLocale)) {
+        throw new LocaleError(`Locale "${name}": dateLocale ${JSON.stringify(locale.dateLocale)} is not a loaded moment locale, expected one of: ${moment.locales().join(", ")}`);
+    }
+
+    if (typeof locale.dateFormat !== "string" || locale.dateFormat === "") {
+        throw new LocaleError(`Locale "${name}": dateFormat is ${JSON.stringify(locale.dateFormat)}, expected a moment format (e.g.: "dddd, MMMM D, YYYY")`);
+    }
+
+    if (typeof locale.hour12 !== "boolean") {
+        throw new LocaleError(`Locale "${name}": hour12 is ${JSON.stringify(locale.hour12)}, expected true or false`);
+    }
+
+    return copyLocale(locale);
+}
+
+function copyLocale(locale: Locale): Locale {
+    return {
+        name:       locale.name,
+        dateLocale: locale.dateLocale,
+        dateFormat: locale.dateFormat,
+        hour12:     locale.hour12,
+        labels:     { ...locale.labels },
+        phases:     { ...locale.phases }
+    };
+}
@@ -0,0 +1,331 @@
+import crypto from "crypto";
+import fs = require("fs");
+import jpeg from "jpeg-js";
+import os from "os";
+import path from "path";
+import { PassThrough } from "stream";
+import * as pure from "pureimage";
+import { ImageFormat, EncodedImage } from "./Dial";
+
+// Drawing and encoding helpers shared by the pureimage renderers (SunMoonImage, SunMoonPoster and SunMoonTimeLapse)
+
+export interface ImageBuffer {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+// TTF file path or contents for each font family a theme can name (e.g.: {"OpenSans-Bold": "/usr/share/fonts/MyFont.ttf"})
+export type FontSources = {[family: string]: string | Buffer};
+
+/**
+ * A font could not be found or loaded
+ */
+export class FontError extends Error {
+    public family: string;              // Font family the theme asked for (e.g.: "OpenSans-Bold")
+
+    constructor(family: string, message: string) {
+        super(message);
+        this.name = "FontError";
+        this.family = family;
+    }
+}
+
+// Fonts that ship in the package's fonts directory.  It is found from this file, build/ or src/, not the
+// current directory, so the fonts work when the package is installed as a dependency.
+const FONT_DIR = path.join(__dirname, "..", "fonts");
+const BUNDLED_FONTS: {[family: string]: string} = {
+    "OpenSans-Bold":    "OpenSans-Bold.ttf",
+    "OpenSans-Regular": "OpenSans-Regular.ttf",
+    "alata-regular":    "alata-regular.ttf"
+};
+
+// Parsed fonts by source (file path or hash of the buffer) so each font is read once per process, and the
+// source each family is registered with in pureimage now
+const loadedFonts = new Map<string, unknown>();
+const registeredSources = new Map<string, string>();
+
+/**
+ * @returns The names of the fonts in the package (e.g.: ["OpenSans-Bold", "OpenSans-Regular", "alata-regular"])
+ */
+export function getBundledFontNames(): Array<string> {
+    return Object.keys(BUNDLED_FONTS);
+}
+
+/**
+ * Registers the font families the theme uses with pureimage.  A family comes from fonts if it is there, otherwise
+ * from the package's fonts directory.  Each font file is loaded once per process, later calls just point the family
+ * at the loaded font.  The registration is global, so call this before every render and draw without awaiting.
+ * @param families Font families to register (e.g.: the theme's titleFontFamily and textFontFamily)
+ * @param fonts Optional TTF paths or contents by family, replacing or adding to the bundled fonts
+ * @throws FontError if a family is not bundled or given, or its file is missing or not a font
+ */
+export function registerFonts(families: Array<string>, fonts: FontSources = {}): void {
+    for (const family of new Set(families)) {
+        // Own keys only, so a family like "toString" is not found on Object.prototype
+        const source: string | Buffer | undefined = Object.hasOwn(fonts, family) ? fonts[family] :
+            Object.hasOwn(BUNDLED_FONTS, family) ? path.join(FONT_DIR, BUNDLED_FONTS[family]) : undefined;
+        if (source === undefined) {
+            throw new FontError(family, `Raster: font "${family}" is not bundled, expected one of: ${getBundledFontNames().join(", ")} or a TTF path or Buffer in the fonts option`);
+        }
+
+        const key = Buffer.isBuffer(source) ? `buffer:${crypto.createHash("sha1").update(source).digest("hex")}` : path.resolve(source);
+        if (registeredSources.get(family) === key) {
+            continue;
+        }
+
+        // Not recorded until the load works, a failed load leaves pureimage with a font that is not loaded
+        registeredSources.delete(family);
+        const font = loadedFonts.get(key);
+        if (font === undefined) {
+            loadedFonts.set(key, loadFont(family, source));
+        } else {
+            // Already parsed for another family or an earlier source, hand pureimage the loaded font
+            const registered = pure.registerFont(Buffer.isBuffer(source) ? `${family}.ttf` : source, family);
+            registered.font = font;
+            registered.loaded = true;
+        }
+        registeredSources.set(family, key);
+    }
+}
+
+/**
+ * Reads and parses a TTF font and registers it with pureimage
+ * @param family Font family to register
+ * @param source Path to the TTF file or its contents
+ * @returns The parsed font
+ * @throws FontError if the file is missing or not a font
+ */
+function loadFont(family: string, source: string | Buffer): unknown {
+    if (!Buffer.isBuffer(source)) {
+        if (typeof source !== "string" || !fs.existsSync(source)) {
+            throw new FontError(family, `Raster: font "${family}" not found at "${source}"`);
+        }
+        try {
+            return pure.registerFont(source, family).loadSync().font;
+        } catch (e) {
+            throw new FontError(family, `Raster: font "${family}" could not be loaded from "${source}": ${e instanceof Error ? e.message : e}`);
+        }
+    }
+
+    // pureimage only loads from a file.  Write the buffer to a temporary file and remove it once the font is parsed.
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sun-moon-builder-"));
+    const fileName = path.join(dir, "font.ttf");
+    try {
+        fs.writeFileSync(fileName, source);
+        return pure.registerFont(fileName, family).loadSync().font;
+    } catch (e) {
+        throw new FontError(family, `Raster: font "${family}" could not be loaded from the buffer (${source.length} bytes): ${e instanceof Error ? e.message : e}`);
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+}
+
+/**
+ * This optimized fillRect was derived from the pureimage source code: https://github.com/joshmarinacci/node-pureimage/tree/master/src
+ * To fill a 1920x1080 image on a core i5, this saves about 1.5 seconds
+ * @param img Target image to draw on
+ * @param x Position of the rect X
+ * @param y Position of the rect Y
+ * @param w Width of the rect
+ * @param h Hieght of the rect
+ * @param rgb Color in the form "#rrggbb"
+ */
+export function myFillRect(img: ImageBuffer, x: number, y: number, w: number, h: number, rgb: string): void {
+    const colorValue = parseInt(rgb.substring(1), 16);
+
+    // the shift operator forces js to perform the internal ToUint32 (see ecmascript spec 9.6)
+    //colorValue = colorValue >>> 0;
+    const r = (colorValue >>> 16) & 0xFF;
+    const g = (colorValue >>> 8)  & 0xFF;  
+    const b = (colorValue)        & 0xFF;
+    const a = 0xFF;
+
+    for(let i = y; i < y + h; i++) {                
+        for(let j = x; j < x + w; j++) {   
+            const index = (i * img.width + j) * 4;   
+            
+            img.data[index + 0] = r;
+            img.data[index + 1] = g;     
+            img.data[index + 2] = b;     
+            img.data[index + 3] = a; 
+        }
+    }
+}
+
+// The part of a pureimage context that strokeArc() uses
+export interface PathContext {
+    beginPath(): void;
+    moveTo(x: number, y: number): void;
+    lineTo(x: number, y: number): void;
+    stroke(): void;
+}
+
+/**
+ * Strokes an arc clockwise from startAngle to endAngle in the current stroke style and line width.
+ * pureimage's arc() starts with a line from the first point to itself, which stroke() can't draw and logs
+ * "can't project the same paths" for, so the path is built here without any zero length lines.
+ * An arc with no length is not drawn.
+ * @param ctx pureimage context
+ * @param x Center X
+ * @param y Center Y
+ * @param radius Radius of the arc
+ * @param startAngle Radians clockwise from the positive X axis
+ * @param endAngle Radians, an end before the start goes round through 0 like ctx.arc()
+ */
+export function strokeArc(ctx: PathContext, x: number, y: number, radius: number, startAngle: number, endAngle: number): void {
+    if (endAngle < startAngle) {
+        endAngle += 2 * Math.PI;
+    }
+
+    // Same step as pureimage's arc()
+    const steps = Math.ceil((endAngle - startAngle) / (Math.PI / 16));
+    const points: Array<[number, number]> = [];
+    for (let i = 0; i <= steps; i++) {
+        const angle = startAngle + (endAngle - startAngle) * i / steps;
+        const point: [number, number] = [x + radius * Math.cos(angle), y + radius * Math.sin(angle)];
+        const last = points[points.length - 1];
+        if (last === undefined || last[0] !== point[0] || last[1] !== point[1]) {
+            points.push(point);
+        }
+    }
+    if (points.length < 2) {
+        return;
+    }
+
+    ctx.beginPath();
+    points.forEach(([px, py], i) => {
+        if (i === 0) ctx.moveTo(px, py);
+        else         ctx.lineTo(px, py);
+    });
+    ctx.stroke();
+}
+
+/**
+ * Encodes the rendered image in the requested format
+ * @param img Rendered image
+ * @param format "jpg", "png" or "rgba"
+ * @param jpegQuality 1-100, only used for "jpg"
+ * @returns Encoded image
+ */
+export async function encodeImage(img: ImageBuffer, format: ImageFormat, jpegQuality: number): Promise<EncodedImage> {
+    switch (format) {
+    case "png": {
+        const chunks: Array<Buffer> = [];
+        const stream = new PassThrough();
+        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+        await pure.encodePNGToStream(img, stream);
+        return {data: Buffer.concat(chunks), width: img.width, height: img.height};
+    }
+    case "rgba":
+        return {data: Buffer.from(img.data.buffer, img.data.byteOffset, img.width * img.height * 4), width: img.width, height: img.height};
+    default:
+        return jpeg.encode(img, jpegQuality);
+    }
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// CRC-32 of the PNG spec, the table is made the first time it is needed
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Buffer): number {
+    if (crcTable === null) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) {
+                c = (c & 1) ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            }
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(data.length, 0);
+    header.write(type, 4, "ascii");
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])), 0);
+    return Buffer.concat([header, data, crc]);
+}
+
+function readPngChunks(png: Buffer): Array<{type: string, data: Buffer}> {
+    if (!png.subarray(0, 8).equals(PNG_SIGNATURE)) {
+        throw new RangeError("Raster: frame is not a PNG");
+    }
+
+    const chunks: Array<{type: string, data: Buffer}> = [];
+    for (let offset = 8; offset + 8 <= png.length; ) {
+        const length = png.readUInt32BE(offset);
+        chunks.push({type: png.toString("ascii", offset + 4, offset + 8), data: png.subarray(offset + 8, offset + 8 + length)});
+        offset += length + 12;
+    }
+    return chunks;
+}
+
+/**
+ * Joins PNG frames of the same size into an animated PNG (APNG) that loops forever.
+ * Every frame replaces the whole image, so the frames are stored as they are.
+ * @param frames Encoded PNG frames
+ * @param delayMs How long each frame is shown
+ * @returns The APNG, which shows the first frame in viewers that do not animate
+ */
+export function encodeApng(frames: Array<EncodedImage>, delayMs: number): EncodedImage {
+    if (frames.length === 0) {
+        throw new RangeError("Raster: an animation needs at least one frame");
+    }
+
+    const { width, height } = frames[0];
+    const output: Array<Buffer> = [PNG_SIGNATURE];
+    let sequence = 0;
+
+    frames.forEach((frame, index) => {
+        if (frame.width !== width || frame.height !== height) {
+            throw new RangeError(`Raster: frame ${index} is ${frame.width}x${frame.height}, expected ${width}x${height}`);
+        }
+        const chunks = readPngChunks(frame.data);
+
+        if (index === 0) {
+            output.push(...chunks.filter((chunk) => chunk.type === "IHDR").map((chunk) => pngChunk(chunk.type, chunk.data)));
+
+            const animationControl = Buffer.alloc(8);
+            animationControl.writeUInt32BE(frames.length, 0);      // Frames
+            animationControl.writeUInt32BE(0, 4);                  // Plays, 0 is forever
+            output.push(pngChunk("acTL", animationControl));
+        }
+
+        const frameControl = Buffer.alloc(26);
+        frameControl.writeUInt32BE(sequence++, 0);
+        frameControl.writeUInt32BE(width, 4);
+        frameControl.writeUInt32BE(height, 8);
+        frameControl.writeUInt32BE(0, 12);                         // x offset
+        frameControl.writeUInt32BE(0, 16);                         // y offset
+        frameControl.writeUInt16BE(Math.min(65535, Math.round(delayMs)), 20);
+        frameControl.writeUInt16BE(1000, 22);                      // Delay is in ms
+        frameControl.writeUInt8(0, 24);                            // Dispose: none
+        frameControl.writeUInt8(0, 25);                            // Blend: source
+        output.push(pngChunk("fcTL", frameControl));
+
+        // The first frame is the default image, the others are frame data chunks with a sequence number
+        for (const chunk of chunks.filter((chunk) => chunk.type === "IDAT")) {
+            if (index === 0) {
+                output.push(pngChunk("IDAT", chunk.data));
+            } else {
+                const sequenceNumber = Buffer.alloc(4);
+                sequenceNumber.writeUInt32BE(sequence++, 0);
+                output.push(pngChunk("fdAT", Buffer.concat([sequenceNumber, chunk.data])));
+            }
+        }
+    });
+
+    output.push(pngChunk("IEND", Buffer.alloc(0)));
+    return {data: Buffer.concat(output), width, height};
+}
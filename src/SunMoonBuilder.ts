@@ -1,30 +1,121 @@
 /* eslint-disable @typescript-eslint/explicit-module-boundary-types */
 /* eslint-disable @typescript-eslint/no-unused-vars */
+import path from "path";
 import { LoggerInterface } from "./Logger";
 import { KacheInterface } from "./Kache";
 import { ImageWriterInterface } from "./SimpleImageWriter";
-import { SunMoonImage } from "./SunMoonImage";
+import { SunMoonImage, ImageOptions } from "./SunMoonImage";
+import { resolveInstant, resolveImageOptions } from "./Dial";
+import { SunMoonSvgImage } from "./SunMoonSvgImage";
+import { SunMoonData, SunMoonJson } from "./SunMoonData";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { DataFormat, toSunMoonExport, formatSunMoonExport } from "./SunMoonExport";
+import { SunMoonCalendar, CalendarOptions } from "./SunMoonCalendar";
+import { SunMoonPoster } from "./SunMoonPoster";
+import { SunMoonTimeLapse, TimeLapseOptions, getFrameFileName } from "./SunMoonTimeLapse";
+
+export { AstronomyProviderChain } from "./AstronomyProvider";
+export { IpGeolocationProvider } from "./IpGeolocationProvider";
+export { NO_EVENT, SunMoonSchemaError, normalizeSunMoonJson } from "./SunMoonSchema";
+export { ApiError, ApiAuthError, ApiQuotaError, ApiTransientError, RequestBudget } from "./ApiClient";
+export { LocalAstronomyProvider } from "./LocalAstronomyProvider";
+export { getTheme, loadTheme, getThemeNames, ThemeError } from "./Theme";
+export { getLocale, loadLocale, getLocaleNames, getPhaseName, LocaleError } from "./Locale";
+export { FontError, getBundledFontNames } from "./Raster";
+export { SunMoonServer } from "./SunMoonServer";
+export { SunMoonCalendar } from "./SunMoonCalendar";
+export { SunMoonPoster } from "./SunMoonPoster";
+export { SunMoonTimeLapse } from "./SunMoonTimeLapse";
+export { Kache, MemoryKacheBackend, FileKacheBackend } from "./Kache";
+export { SUN_MOON_EXPORT_VERSION, toSunMoonExport, formatSunMoonExport } from "./SunMoonExport";
+
+// Rendering options plus the data documents to write next to the image
+export interface CreateOptions extends ImageOptions {
+    dataFormats?: Array<DataFormat>;    // e.g.: ["json", "csv"] writes OnsetSunMoon.json and OnsetSunMoon.csv
+}
+
+export interface BatchJob {
+    location: string;                   // Location name for the title (e.g.: "Boston, MA")
+    fileName: string;                   // The extension is changed to match the format
+    lat: string;
+    lon: string;
+    timeZone: string;
+    date?: string;                      // "YYYY-MM-DD", default is today
+    options?: CreateOptions;
+}
+
+export interface BatchJobResult {
+    job: BatchJob;
+    success: boolean;
+    fileName: string | null;            // Name passed to the writer, null if nothing was written
+    error: string | null;
+    durationMs: number;
+    bytesWritten: number;               // Image only
+    dataFileNames: Array<string>;       // Data documents written for options.dataFormats
+}
 
 export class SunMoonBuilder {
     private logger: LoggerInterface;
     private cache: KacheInterface;
     private writer: ImageWriterInterface;
+    private providers: Array<AstronomyProviderInterface> | undefined;
 
-    constructor(logger: LoggerInterface, cache: KacheInterface, writer: ImageWriterInterface) {
+    /**
+     * Constructor for SunMoonBuilder
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param writer Object that implements the ImageWriterInterface
+     * @param providers Optional list of AstronomyProviders to try in order.  Default is ipgeolocation, or local if there is no apiKey
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, writer: ImageWriterInterface, providers?: Array<AstronomyProviderInterface>) {
         this.logger = logger;
         this.cache = cache; 
         this.writer = writer;
+        this.providers = providers;
     }
 
-    public async CreateImages(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr:string): Promise<boolean>{
+    /**
+     * Create the sun and moon image for a location and save it with the writer
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param fileName File name to pass to the writer.  The extension is changed to match the format (e.g.: ".png")
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param dateStr Date in "YYYY-MM-DD" format or "" for the date of options.instant (today by default)
+     * @param options Optional rendering options (e.g.: {theme: "dark", format: "png"}) and data documents (e.g.: {dataFormats: ["json"]})
+     * @returns true if the image and any data documents were written
+     */
+    public async CreateImages(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr:string, options: CreateOptions = {}): Promise<boolean>{
         try {
-            const weatherImage: SunMoonImage = new SunMoonImage(this.logger, this.cache);
+            // The image and the data documents are for the same instant
+            const instant = resolveInstant(options.instant);
+            options = {...options, instant};
+
+            // Check the options and data formats first so bad ones fail before any data is fetched or file written
+            resolveImageOptions(options);
+            this.checkDataFormats(options.dataFormats ?? []);
+
+            const sunMoonJson = await this.GetSunMoonData(lat, lon, apiKey, timeZone, dateStr, instant);
+            if (sunMoonJson === null) {
+                this.logger.warn("SunMoonBuilder CreateImages: No sun and moon data available");
+                return false;
+            }
+
+            // SVG is drawn by its own renderer that shares the layout with SunMoonImage
+            const weatherImage: SunMoonImage | SunMoonSvgImage = (options.format === "svg") ?
+                new SunMoonSvgImage(this.logger, this.cache, this.providers) :
+                new SunMoonImage(this.logger, this.cache, this.providers);
 
-            const result = await weatherImage.getImage(location, lat, lon, apiKey, timeZone, dateStr);
+            const result = await weatherImage.renderImage(location, lat, sunMoonJson, options);
 
-            if (result !== null && result.imageData !== null ) {
-                this.logger.info(`SunMoonBuilder CreateImages: Writing: ${fileName}`);
-                this.writer.saveFile(fileName, result.imageData.data);
+            if (result.imageData !== null) {
+                const outputName = this.withExtension(fileName, result.imageType);
+                this.logger.info(`SunMoonBuilder CreateImages: Writing: ${outputName}`);
+                this.writer.saveFile(outputName, result.imageData.data);
+
+                // The documents are for the data the image was drawn from
+                this.writeDataFiles(location, lat, lon, timeZone, sunMoonJson, fileName, options.dataFormats ?? []);
             } else {
                 this.logger.warn("SunMoonBuilder CreateImages: No image available");
                 return false;
@@ -40,4 +131,304 @@ export class SunMoonBuilder {
 
         return true;
     }
+
+    /**
+     * Create a month grid or a year of daylight bands for a location and save it with the writer
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param fileName File name to pass to the writer.  The extension is changed to match the format (e.g.: ".png")
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param period "YYYY-MM" for a month grid or "YYYY" for a year of daylight bands
+     * @param options Optional rendering options (theme, locale, hour12, width, height, format and jpegQuality, not "svg")
+     * @returns true if the image was written
+     */
+    public async CreatePoster(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, period: string, options: ImageOptions = {}): Promise<boolean> {
+        try {
+            const poster = new SunMoonPoster(this.logger, this.cache, this.providers);
+            const result = await poster.getImage(location, lat, lon, apiKey, timeZone, period, options);
+
+            if (result !== null && result.imageData !== null) {
+                const outputName = this.withExtension(fileName, result.imageType);
+                this.logger.info(`SunMoonBuilder CreatePoster: Writing: ${outputName}`);
+                this.writer.saveFile(outputName, result.imageData.data);
+            } else {
+                this.logger.warn("SunMoonBuilder CreatePoster: No image available");
+                return false;
+            }
+        } catch (e) {
+            if (e instanceof Error) {
+                this.logger.error(`SunMoonBuilder CreatePoster: ${e.stack}`);
+            } else {
+                this.logger.error(`SunMoonBuilder CreatePoster: Exception: ${e}`);
+            }
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Create a time-lapse of a day on the dial and save it with the writer
+     * - An APNG is written as fileName with a ".png" extension
+     * - Frames are written as numbered files (e.g.: OnsetSunMoon-000.jpg, OnsetSunMoon-001.jpg, ...)
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param fileName File name to pass to the writer.  The extension is changed to match the format
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param dateStr Date in "YYYY-MM-DD" format or "" for today
+     * @param options Optional rendering options plus the interval, frame delay and animation (e.g.: {intervalMinutes: 30, animation: "frames"})
+     * @returns Number of files written, 0 on failure
+     */
+    public async CreateTimeLapse(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr: string, options: TimeLapseOptions = {}): Promise<number> {
+        try {
+            const timeLapse = new SunMoonTimeLapse(this.logger, this.cache, this.providers);
+            const result = await timeLapse.getTimeLapse(location, lat, lon, apiKey, timeZone, dateStr, options);
+            if (result === null) {
+                this.logger.warn("SunMoonBuilder CreateTimeLapse: No time-lapse available");
+                return 0;
+            }
+
+            if (result.animated !== null) {
+                const outputName = this.withExtension(fileName, result.imageType);
+                this.logger.info(`SunMoonBuilder CreateTimeLapse: Writing: ${outputName} with ${result.instants.length} frames`);
+                this.writer.saveFile(outputName, result.animated.data);
+                return 1;
+            }
+
+            result.frames.forEach((frame, index) => {
+                this.writer.saveFile(getFrameFileName(fileName, index, result.frames.length, result.imageType), frame.data);
+            });
+            this.logger.info(`SunMoonBuilder CreateTimeLapse: Wrote ${result.frames.length} frames for ${fileName}`);
+            return result.frames.length;
+        } catch (e) {
+            if (e instanceof Error) {
+                this.logger.error(`SunMoonBuilder CreateTimeLapse: ${e.stack}`);
+            } else {
+                this.logger.error(`SunMoonBuilder CreateTimeLapse: Exception: ${e}`);
+            }
+            return 0;
+        }
+    }
+
+    /**
+     * Create an iCalendar (.ics) file of the sun and moon events for a range of dates and save it with the writer
+     * @param location Location name for the calendar (e.g.: "Boston, MA")
+     * @param fileName File name to pass to the writer.  The extension is changed to ".ics"
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param startDate First date in "YYYY-MM-DD" format
+     * @param endDate Last date in "YYYY-MM-DD" format, at most 366 days after the start
+     * @param options Optional event types (e.g.: {events: ["sun", "twilight"]})
+     * @returns true if the calendar was written
+     */
+    public async CreateCalendar(location: string, fileName: string, lat: string, lon: string, apiKey: string, timeZone: string,
+        startDate: string, endDate: string, options: CalendarOptions = {}): Promise<boolean> {
+        try {
+            const calendar = new SunMoonCalendar(this.logger, this.cache, this.providers);
+            const ics = await calendar.getCalendar(location, lat, lon, apiKey, timeZone, startDate, endDate, options);
+            if (ics === null) {
+                this.logger.warn("SunMoonBuilder CreateCalendar: No calendar available");
+                return false;
+            }
+
+            const outputName = this.withExtension(fileName, "ics");
+            this.logger.info(`SunMoonBuilder CreateCalendar: Writing: ${outputName}`);
+            this.writer.saveFile(outputName, Buffer.from(ics));
+        } catch (e) {
+            if (e instanceof Error) {
+                this.logger.error(`SunMoonBuilder CreateCalendar: ${e.stack}`);
+            } else {
+                this.logger.error(`SunMoonBuilder CreateCalendar: Exception: ${e}`);
+            }
+            return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Get the sun and moon data used to draw the image without rendering it
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param dateStr Date in "YYYY-MM-DD" format or "" for the date of the instant
+     * @param instant Optional time for current_time and the positions, default is now
+     * @returns The data or null if no provider had it
+     */
+    public async GetSunMoonData(lat: string, lon: string, apiKey: string, timeZone: string, dateStr: string, instant?: Date): Promise<SunMoonJson | null> {
+        const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+        return sunMoonData.getSunMoonData(lat, lon, apiKey, timeZone, dateStr, instant);
+    }
+
+    /**
+     * Fetch the sun and moon data for the next few days into the cache so images can still be made if the providers are down
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param days Number of days, starting today or on startDate
+     * @param startDate Optional first date in "YYYY-MM-DD" format
+     * @returns Number of days with live (not stale) data, 0 on failure
+     */
+    public async PrefetchSunMoonData(lat: string, lon: string, apiKey: string, timeZone: string, days: number, startDate = ""): Promise<number> {
+        try {
+            const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+            return await sunMoonData.prefetch(lat, lon, apiKey, timeZone, days, startDate);
+        } catch(e) {
+            if (e instanceof Error) {
+                this.logger.error(`SunMoonBuilder PrefetchSunMoonData: ${e.stack}`);
+            } else {
+                this.logger.error(`SunMoonBuilder PrefetchSunMoonData: Exception: ${e}`);
+            }
+            return 0;
+        }
+    }
+
+    /**
+     * Create the images for a list of jobs, a few at a time.  Jobs for the same location, time zone, date and instant
+     * share a single fetch of the sun and moon data.  A failed job does not stop the others.
+     * @param jobs Locations and dates to render
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param concurrency Maximum number of jobs in progress at once
+     * @returns A result for each job, in the same order as jobs
+     */
+    public async CreateImagesBatch(jobs: Array<BatchJob>, apiKey: string, concurrency = 4): Promise<Array<BatchJobResult>> {
+        const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+        const fetches = new Map<string, Promise<SunMoonJson | null>>();
+        const results: Array<BatchJobResult> = new Array(jobs.length);
+        const batchStart = Date.now();
+
+        const getData = (job: BatchJob): Promise<SunMoonJson | null> => {
+            // Jobs without an instant share the data for now
+            const instant = (job.options?.instant === undefined) ? undefined : resolveInstant(job.options.instant);
+            const key = `${job.lat}|${job.lon}|${job.timeZone}|${job.date ?? ""}|${instant?.valueOf() ?? ""}`;
+            let fetch = fetches.get(key);
+            if (fetch === undefined) {
+                fetch = sunMoonData.getSunMoonData(job.lat, job.lon, apiKey, job.timeZone, job.date ?? "", instant);
+                fetches.set(key, fetch);
+            }
+            return fetch;
+        };
+
+        // Each worker takes the next job until there are none left
+        let nextJob = 0;
+        const worker = async (): Promise<void> => {
+            while (nextJob < jobs.length) {
+                const index = nextJob++;
+                results[index] = await this.runBatchJob(jobs[index], getData);
+            }
+        };
+
+        const workers: Array<Promise<void>> = [];
+        for (let i = 0; i < Math.max(1, Math.min(concurrency, jobs.length)); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+
+        const succeeded = results.filter((result) => result.success).length;
+        this.logger.info(`SunMoonBuilder CreateImagesBatch: ${succeeded} of ${jobs.length} jobs succeeded, ${fetches.size} data fetches, ${Date.now() - batchStart}ms`);
+        return results;
+    }
+
+    /**
+     * Render and write one batch job
+     * @param job Job to run
+     * @param getData Gets the (shared) sun and moon data for the job
+     * @returns Result for the job, never throws
+     */
+    private async runBatchJob(job: BatchJob, getData: (job: BatchJob) => Promise<SunMoonJson | null>): Promise<BatchJobResult> {
+        const startTime = Date.now();
+        const result: BatchJobResult = {job, success: false, fileName: null, error: null, durationMs: 0, bytesWritten: 0, dataFileNames: []};
+
+        try {
+            const options = job.options ?? {};
+
+            // A job with bad options fails before its data is fetched, as in CreateImages()
+            resolveImageOptions(options);
+            this.checkDataFormats(options.dataFormats ?? []);
+
+            const renderer: SunMoonImage | SunMoonSvgImage = (options.format === "svg") ?
+                new SunMoonSvgImage(this.logger, this.cache, this.providers) :
+                new SunMoonImage(this.logger, this.cache, this.providers);
+
+            const sunMoonJson = await getData(job);
+            if (sunMoonJson === null) {
+                result.error = "No sun and moon data available";
+            } else {
+                const image = await renderer.renderImage(job.location, job.lat, sunMoonJson, options);
+                if (image.imageData === null) {
+                    result.error = "No image available";
+                } else {
+                    const outputName = this.withExtension(job.fileName, image.imageType);
+                    this.logger.info(`SunMoonBuilder CreateImagesBatch: Writing: ${outputName}`);
+                    this.writer.saveFile(outputName, image.imageData.data);
+                    result.fileName = outputName;
+                    result.bytesWritten = image.imageData.data.length;
+                    result.dataFileNames = this.writeDataFiles(job.location, job.lat, job.lon, job.timeZone, sunMoonJson, job.fileName, options.dataFormats ?? []);
+                    result.success = true;
+                }
+            }
+        } catch (e) {
+            result.error = (e instanceof Error) ? e.message : `${e}`;
+        }
+
+        if (!result.success) {
+            this.logger.warn(`SunMoonBuilder CreateImagesBatch: ${job.fileName} failed: ${result.error}`);
+        }
+        result.durationMs = Date.now() - startTime;
+        return result;
+    }
+
+    /**
+     * Write the versioned data documents next to the image
+     * @param location Location name for the document
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param sunMoonJson Data the image was drawn from
+     * @param fileName Image file name, the extension is replaced with the format (e.g.: ".json")
+     * @param formats Documents to write
+     * @returns Names of the files written
+     */
+    private writeDataFiles(location: string, lat: string, lon: string, timeZone: string, sunMoonJson: SunMoonJson, fileName: string, formats: Array<DataFormat>): Array<string> {
+        const sunMoonExport = toSunMoonExport(location, lat, lon, timeZone, sunMoonJson);
+        const fileNames: Array<string> = [];
+        for (const format of formats) {
+            const dataName = this.withExtension(fileName, format);
+            this.logger.info(`SunMoonBuilder: Writing: ${dataName}`);
+            this.writer.saveFile(dataName, Buffer.from(formatSunMoonExport(sunMoonExport, format)));
+            fileNames.push(dataName);
+        }
+        return fileNames;
+    }
+
+    /**
+     * Checks the data formats before anything is rendered or written
+     * @param formats Documents to write
+     * @throws RangeError if a format is not "json" or "csv"
+     */
+    private checkDataFormats(formats: Array<DataFormat>): void {
+        const unknown = formats.filter((format) => format !== "json" && format !== "csv");
+        if (unknown.length > 0) {
+            throw new RangeError(`SunMoonBuilder: data format "${unknown[0]}" is not valid, expected "json" or "csv"`);
+        }
+    }
+
+    /**
+     * Replaces the extension of the file name with the one for the image type
+     * @param fileName Requested file name (e.g.: "OnsetSunMoon.jpg")
+     * @param imageType "jpg", "png", "rgba" or "svg"
+     * @returns File name with the matching extension (e.g.: "OnsetSunMoon.png")
+     */
+    private withExtension(fileName: string, imageType: string): string {
+        const parsed = path.parse(fileName);
+        return path.join(parsed.dir, `${parsed.name}.${imageType}`);
+    }
 }
@@ -0,0 +1,272 @@
+import moment from "moment-timezone";
+import { LoggerInterface } from "./Logger";
+import { KacheInterface } from "./Kache";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { SunMoonData, SunMoonJson } from "./SunMoonData";
+import { getEventTime, EventTimeField } from "./SunMoonSchema";
+
+// RFC 5545 calendar of the sun and moon events for a location over a range of dates
+// Times are local to the location and refer to a VTIMEZONE built from the moment-timezone data so
+// calendar apps show them correctly across DST changes.
+
+export type CalendarEventType = "sun" | "twilight" | "moon" | "phases";
+
+export interface CalendarOptions {
+    events?: Array<CalendarEventType>;    // Default is all of them
+}
+
+const MAX_CALENDAR_DAYS = 366;
+const ALL_EVENT_TYPES: Array<CalendarEventType> = ["sun", "twilight", "moon", "phases"];
+const PRODUCT_ID = "-//sun-moon-builder//Sun and Moon Calendar//EN";
+
+interface CalendarEvent {
+    uid: string;
+    summary: string;
+    start: moment.Moment;                 // In the location's time zone
+}
+
+export class SunMoonCalendar {
+    private logger: LoggerInterface;
+    private cache: KacheInterface;
+    private providers: Array<AstronomyProviderInterface> | undefined;
+
+    /**
+     * Constructor for SunMoonCalendar
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param providers Optional list of AstronomyProviders to try in order
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>) {
+        this.logger = logger;
+        this.cache = cache;
+        this.providers = providers;
+    }
+
+    /**
+     * Build the calendar for a range of dates
+     * @param location Location name for the calendar and event descriptions (e.g.: "Boston, MA")
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param startDate First date in "YYYY-MM-DD" format
+     * @param endDate Last date in "YYYY-MM-DD" format, included in the calendar
+     * @param options Optional event types to include
+     * @returns The .ics text or null if the data was not available for a date
+     * @throws RangeError if the dates, time zone or event types are not usable
+     */
+    public async getCalendar(location: string, lat: string, lon: string, apiKey: string, timeZone: string,
+        startDate: string, endDate: string, options: CalendarOptions = {}): Promise<string | null> {
+        const zone = moment.tz.zone(timeZone);
+        if (zone === null) {
+            throw new RangeError(`SunMoonCalendar: time zone "${timeZone}" is not known`);
+        }
+
+        const start = moment.tz(startDate, "YYYY-MM-DD", true, timeZone);
+        const end = moment.tz(endDate, "YYYY-MM-DD", true, timeZone);
+        if (!start.isValid() || !end.isValid()) {
+            throw new RangeError(`SunMoonCalendar: dates "${startDate}" and "${endDate}" must be in YYYY-MM-DD format`);
+        }
+
+        const days = end.diff(start, "days") + 1;
+        if (days < 1 || days > MAX_CALENDAR_DAYS) {
+            throw new RangeError(`SunMoonCalendar: ${startDate} to ${endDate} is ${days} days, expected 1 to ${MAX_CALENDAR_DAYS}`);
+        }
+
+        const eventTypes = options.events ?? ALL_EVENT_TYPES;
+        for (const eventType of eventTypes) {
+            if (!ALL_EVENT_TYPES.includes(eventType)) {
+                throw new RangeError(`SunMoonCalendar: event type "${eventType}" is not valid, expected one of: ${ALL_EVENT_TYPES.join(", ")}`);
+            }
+        }
+
+        const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+        const events = new Map<string, CalendarEvent>();   // By UID, each day repeats the upcoming moon phases
+        const rangeEnd = end.clone().endOf("day");
+
+        for (let day = 0; day < days; day++) {
+            const dateStr = start.clone().add(day, "days").format("YYYY-MM-DD");
+            const sunMoonJson = await sunMoonData.getSunMoonData(lat, lon, apiKey, timeZone, dateStr);
+            if (sunMoonJson === null) {
+                this.logger.warn(`SunMoonCalendar: No sun and moon data for ${dateStr}`);
+                return null;
+            }
+
+            for (const event of this.getEvents(sunMoonJson, dateStr, lat, lon, timeZone, eventTypes)) {
+                if (!event.start.isBefore(start) && !event.start.isAfter(rangeEnd)) {
+                    events.set(event.uid, event);
+                }
+            }
+        }
+
+        const sortedEvents = [...events.values()].sort((a, b) => a.start.valueOf() - b.start.valueOf());
+        this.logger.info(`SunMoonCalendar: ${sortedEvents.length} events for ${location} from ${startDate} to ${endDate}`);
+
+        const stamp = moment.utc().format("YYYYMMDD[T]HHmmss[Z]");
+        const lines: Array<string> = [
+            "BEGIN:VCALENDAR",
+            "VERSION:2.0",
+            `PRODID:${PRODUCT_ID}`,
+            "CALSCALE:GREGORIAN",
+            "METHOD:PUBLISH",
+            `X-WR-CALNAME:${escapeText(`Sun and Moon - ${location}`)}`,
+            `X-WR-TIMEZONE:${timeZone}`,
+            ...getTimeZoneLines(zone, start.valueOf(), rangeEnd.valueOf())
+        ];
+
+        for (const event of sortedEvents) {
+            lines.push(
+                "BEGIN:VEVENT",
+                `UID:${event.uid}`,
+                `DTSTAMP:${stamp}`,
+                `DTSTART;TZID=${timeZone}:${event.start.format("YYYYMMDD[T]HHmmss")}`,
+                `SUMMARY:${escapeText(event.summary)}`,
+                `LOCATION:${escapeText(location)}`,
+                `GEO:${Number(lat)};${Number(lon)}`,
+                "TRANSP:TRANSPARENT",          // Does not block time in the calendar
+                "END:VEVENT"
+            );
+        }
+
+        lines.push("END:VCALENDAR");
+        return lines.map(foldLine).join("\r\n") + "\r\n";
+    }
+
+    /**
+     * Get the events for one day of data
+     * @returns Events, the moon phases may be after the date
+     */
+    private getEvents(sunMoonJson: SunMoonJson, dateStr: string, lat: string, lon: string, timeZone: string, eventTypes: Array<CalendarEventType>): Array<CalendarEvent> {
+        const events: Array<CalendarEvent> = [];
+        const uidSuffix = `${lat},${lon}@sun-moon-builder`;
+
+        const addTime = (type: string, summary: string, field: EventTimeField): void => {
+            // null for "-:-", the event does not happen on this date.  Dusk after midnight is on the next day.
+            const start = getEventTime(sunMoonJson, field, timeZone);
+            if (start !== null) {
+                events.push({ uid: `${type}-${dateStr}-${uidSuffix}`, summary, start });
+            }
+        };
+
+        if (eventTypes.includes("twilight")) {
+            // First and last light are the earliest and latest twilight that occurs, call them out since they are used for planning
+            const light = (label: string, time: string | undefined, edge: string | undefined, edgeLabel: string) =>
+                (time !== undefined && time === edge) ? `${label} (${edgeLabel})` : label;
+
+            addTime("astronomical-dawn", light("Astronomical dawn", sunMoonJson.astronomicalDawn, sunMoonJson.firstLight, "first light"), "astronomicalDawn");
+            addTime("nautical-dawn",     light("Nautical dawn",     sunMoonJson.nauticalDawn,     sunMoonJson.firstLight, "first light"), "nauticalDawn");
+            addTime("civil-dawn",        light("Civil dawn",        sunMoonJson.civilDawn,        sunMoonJson.firstLight, "first light"), "civilDawn");
+            addTime("civil-dusk",        light("Civil dusk",        sunMoonJson.civilDusk,        sunMoonJson.lastLight,  "last light"),  "civilDusk");
+            addTime("nautical-dusk",     light("Nautical dusk",     sunMoonJson.nauticalDusk,     sunMoonJson.lastLight,  "last light"),  "nauticalDusk");
+            addTime("astronomical-dusk", light("Astronomical dusk", sunMoonJson.astronomicalDusk, sunMoonJson.lastLight,  "last light"),  "astronomicalDusk");
+        }
+
+        if (eventTypes.includes("sun")) {
+            addTime("sunrise", "Sunrise", "sunrise");
+            addTime("sunset",  "Sunset",  "sunset");
+        }
+
+        if (eventTypes.includes("moon")) {
+            addTime("moonrise", "Moonrise", "moonrise");
+            addTime("moonset",  "Moonset",  "moonset");
+        }
+
+        if (eventTypes.includes("phases")) {
+            const phases: Array<[string, string, string | undefined]> = [
+                ["new-moon",      "New moon",      sunMoonJson.nextNewMoon],
+                ["first-quarter", "First quarter", sunMoonJson.nextFirstQuarter],
+                ["full-moon",     "Full moon",     sunMoonJson.nextFullMoon],
+                ["last-quarter",  "Last quarter",  sunMoonJson.nextLastQuarter]
+            ];
+            for (const [type, summary, time] of phases) {
+                if (time === undefined) {
+                    continue;
+                }
+                const start = moment(time, moment.ISO_8601).tz(timeZone);
+                if (start.isValid()) {
+                    // Keyed by the phase date so the same phase seen from several days is one event
+                    events.push({ uid: `${type}-${start.format("YYYY-MM-DD")}-${uidSuffix}`, summary, start });
+                }
+            }
+        }
+
+        return events;
+    }
+}
+
+/**
+ * Build the VTIMEZONE for the part of the zone's history that covers the range
+ * - Each offset change is its own STANDARD or DAYLIGHT observance (no RRULE) so historical and future rule changes are exact
+ * @param zone Zone data from moment-timezone
+ * @param startMs Start of the range
+ * @param endMs End of the range
+ * @returns Lines from BEGIN:VTIMEZONE to END:VTIMEZONE
+ */
+function getTimeZoneLines(zone: moment.MomentZone, startMs: number, endMs: number): Array<string> {
+    // Period i is in effect until untils[i], offsets are minutes west of UTC
+    const first = zone.untils.findIndex((until) => until > startMs);
+    const last = zone.untils.findIndex((until) => until > endMs);
+    const lines = ["BEGIN:VTIMEZONE", `TZID:${zone.name}`];
+
+    for (let period = first; period <= last; period++) {
+        const offsetTo = zone.offsets[period];
+        const offsetFrom = (period > 0) ? zone.offsets[period - 1] : offsetTo;
+        const periodStart = (period > 0) ? zone.untils[period - 1] : null;
+
+        // DTSTART is the local time of the change in the offset before it
+        const localStart = (periodStart === null) ? "16010101T000000" : moment.utc(periodStart - offsetFrom * 60000).format("YYYYMMDD[T]HHmmss");
+        const sample = (periodStart !== null) ? periodStart : (Number.isFinite(zone.untils[0]) ? zone.untils[0] - 1 : 0);
+        const component = moment(sample).tz(zone.name).isDST() ? "DAYLIGHT" : "STANDARD";
+
+        lines.push(
+            `BEGIN:${component}`,
+            `DTSTART:${localStart}`,
+            `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+            `TZOFFSETTO:${formatOffset(offsetTo)}`,
+            `TZNAME:${escapeText(zone.abbrs[period])}`,
+            `END:${component}`
+        );
+    }
+
+    lines.push("END:VTIMEZONE");
+    return lines;
+}
+
+// Minutes west of UTC to "+hhmm" east of UTC
+function formatOffset(minutesWest: number): string {
+    const minutesEast = -Math.round(minutesWest);
+    const sign = (minutesEast < 0) ? "-" : "+";
+    const hours = Math.floor(Math.abs(minutesEast) / 60);
+    const minutes = Math.abs(minutesEast) % 60;
+    return `${sign}${String(hours).padStart(2, "0")}${String(minutes).padStart(2, "0")}`;
+}
+
+// RFC 5545 3.3.11
+function escapeText(text: string): string {
+    return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+// RFC 5545 3.1, lines are at most 75 octets, continued with a leading space
+function foldLine(line: string): string {
+    const bytes = Buffer.from(line);
+    if (bytes.length <= 75) {
+        return line;
+    }
+
+    const parts: Array<string> = [];
+    let current = "";
+    let currentBytes = 0;
+    for (const char of line) {
+        const charBytes = Buffer.byteLength(char);
+        const limit = (parts.length === 0) ? 75 : 74;   // Continuation lines start with a space
+        if (currentBytes + charBytes > limit) {
+            parts.push(current);
+            current = "";
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += charBytes;
+    }
+    parts.push(current);
+    return parts.join("\r\n ");
+}
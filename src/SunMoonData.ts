@@ -1,7 +1,11 @@
-import axios, { AxiosRequestConfig, AxiosResponse } from "axios";
 import moment from "moment-timezone";  // https://momentjs.com/timezone/docs/ &  https://momentjs.com/docs/
 import { LoggerInterface } from "./Logger";
 import { KacheInterface } from "./Kache";
+import { AstronomyProviderChain, AstronomyProviderInterface } from "./AstronomyProvider";
+import { IpGeolocationProvider } from "./IpGeolocationProvider";
+import { LocalAstronomyProvider } from "./LocalAstronomyProvider";
+import * as astro from "./Astronomy";
+import { normalizeSunMoonJson, NO_EVENT } from "./SunMoonSchema";
 
 // Data from: https://api.ipgeolocation.io/astronomy?apiKey=API_KEY&lat=42.68&long=-71.47
 // Ref: https://ipgeolocation.io/documentation/astronomy-api.html
@@ -28,101 +32,132 @@ import { KacheInterface } from "./Kache";
 //     "moon_azimuth": 84.55392111689355,
 //     "moon_parallactic_angle": -49.51802499156944
 // }
+// normal        - The sun rises and sets
+// always-up     - Polar day, the sun does not set
+// twilight-only - Polar night, the sun does not rise but the sky gets some twilight
+// always-down   - Polar night, the sun stays more than 18 degrees below the horizon
+export type SunState = "normal" | "always-up" | "twilight-only" | "always-down";
+
 export interface SunMoonJson {
     current_time: string;
     date: string;
     sunrise: string;
     sunset: string; 
-    solor_noon: string;           
+    sun_status?: string;
+    solar_noon: string;
+    day_length?: string;
+    sun_altitude?: number;
+    sun_distance?: number;
+    sun_azimuth?: number;
     moonrise: string;
     moonset: string;
-    firstLight?: string;
-    lastLight?: string;
-    lunarAgeDays?: number;
-    lunarIllumination?: string;
+    moon_status?: string;
+    moon_altitude?: number;
+    moon_distance?: number;
+    moon_azimuth?: number;
+    moon_parallactic_angle?: number;
+    sunState?: SunState;
+    firstLight?: string;          // Start of the earliest twilight that occurs (astronomical if the sky gets fully dark)
+    lastLight?: string;           // End of the latest twilight that occurs
+    civilDawn?: string;           // Sun 6 degrees below the horizon
+    civilDusk?: string;
+    nauticalDawn?: string;        // Sun 12 degrees below the horizon
+    nauticalDusk?: string;
+    astronomicalDawn?: string;    // Sun 18 degrees below the horizon
+    astronomicalDusk?: string;
+    lunarAgeDays?: number;                // Days since the last new moon
+    lunarIllumination?: string;           // Illuminated percent (e.g.: "63%")
+    lunarIlluminationFraction?: number;   // Illuminated fraction of the disk (0.0-1.0)
+    lunarPhaseAngle?: number;             // Sun-moon-earth angle in degrees, 0 is full, 180 is new
+    lunarBrightLimbAngle?: number;        // Position angle of the bright limb, degrees east of north
     lunarWaxWane?: string;
     lunarPhase?: string;
+    nextNewMoon?: string;                 // ISO 8601 in the requested time zone (e.g.: "2021-09-20T19:54:32-04:00")
+    nextFirstQuarter?: string;
+    nextFullMoon?: string;
+    nextLastQuarter?: string;
     //lunarPhase2: string;
+    provider?: string;            // Name of the AstronomyProvider that supplied the data
+    timeZone?: string;            // IANA time zone of the times (e.g.: "America/New_York")
+    stale?: boolean;              // The providers failed, this is a local calculation or the last data fetched for the location
 }
 
-const MOON_PERIOD_DAYS = 29.53058770576;   // Earth days for one moon cycle
-const UNIX_EPOCH = 2440587.5;              // UNIX Epoch in Julian days
-const LUNAR_REFERENCE = 2451550.1;
-const MSEC_PER_DAY = 24 * 60 * 60 * 1000;
-const MIN_PER_DAY = 24 * 60;
+const MOON_PERIOD_DAYS  = 29.53058770576;           // Earth days for one moon cycle
+const STALE_RETRY_MS    = 15 * 60 * 1000;           // Stale data is cached this long, then the providers are tried again
+const MAX_PREFETCH_DAYS = 366;
+const LAST_GOOD_MS      = 7 * 24 * 60 * 60 * 1000;  // How long the last live data for a location is kept for when everything fails
+const HISTORY_CACHE_MS  = 30 * 24 * 60 * 60 * 1000; // Data for past dates does not change
+const POSITION_TOLERANCE_MS = 60 * 1000;            // Positions for a time this close to now are used as they are
 
 export class SunMoonData {
     private logger: LoggerInterface;
     private cache: KacheInterface;
+    private providers: Array<AstronomyProviderInterface> | undefined;
 
-    constructor(logger: LoggerInterface, cache: KacheInterface) {
+    /**
+     * Constructor for SunMoonData
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param providers Optional list of providers to try in order.  Default is ipgeolocation, or local if there is no apiKey
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>) {
         this.logger = logger;
         this.cache = cache;
+        this.providers = providers;
     }    
 
     /**
-     * Get the sun and moon data from cache or a REST GET to api.ipgeolocation.io
+     * Get the sun and moon data from cache or the first provider in the chain that has it
+     * - By default this is a REST GET to api.ipgeolocation.io
+     * - If no apiKey is provided, the data is only calculated locally (no network needed) and is not stale
+     * - If every provider fails, the data is calculated locally or, failing that, the last data fetched for the location
+     *   is used.  Either way it is marked stale and only cached for a short time so the providers are tried again soon.
+     * - current_time is the instant (default now) in the time zone.  If the data is for another time (e.g.: it was
+     *   cached earlier or the provider used another time zone) the sun and moon positions are recalculated for it.
      * @param lat lattitude (e.g.: 41.65)
      * @param lon longitude (e.g.: -71.45)
-     * @param apiKey Key for https://api.ipgeolocation.io
+     * @param apiKey Key for https://api.ipgeolocation.io, "" to calculate locally.  Not used if providers were given
      * @param timeZone Show for this timeZone
-     * @param dateStr Optional.  Used instead of today to find the data, mostly used for testing.  Format is: YYYY-MM-DD
+     * @param dateStr Optional.  Used instead of the instant's date to find the data.  Format is: YYYY-MM-DD
+     * @param instant Optional time to give the positions for, default is now
      * @returns SunMoonJson - sun rise/set, moon rise/set, moon illuminaiton, phase, etc.
      */
-    public async getSunMoonData(lat: string, lon: string, apiKey: string, timeZone: string, dateStr = ""): Promise<SunMoonJson | null> { 
+    public async getSunMoonData(lat: string, lon: string, apiKey: string, timeZone: string, dateStr = "", instant: Date = new Date()): Promise<SunMoonJson | null> { 
         let sunMoonJson: SunMoonJson | null = null;
-        let dateParam: string;
-        let date: Date;
         try {
-            const now: moment.Moment = moment();
+            const today = moment().tz(timeZone).format("YYYY-MM-DD");
+            const dateParam = (dateStr === "") ? moment(instant).tz(timeZone).format("YYYY-MM-DD") : dateStr;
 
-            if (dateStr === "") {
-                date = new Date();
-                dateParam = now.tz(timeZone).format("YYYY-MM-DD");
-            } else {
-                dateParam = dateStr;
-                date = new Date(dateStr);
-            }
+            // The moon phase is for the instant if no date was given, otherwise for local noon on the date
+            const date = (dateStr === "") ? instant : moment.tz(`${dateStr} 12:00`, "YYYY-MM-DD HH:mm", timeZone).toDate();
 
-            const key = `lat:${lat}-lon:${lon}-date:${dateParam}`;
+            // The times are in the time zone, so it is part of the key
+            const key = `lat:${lat}-lon:${lon}-tz:${timeZone}-date:${dateParam}`;
+            const lastKey = `lat:${lat}-lon:${lon}-tz:${timeZone}-last`;
 
-            sunMoonJson = this.cache.get(key) as SunMoonJson;
-            if (sunMoonJson !== null) {
-                return sunMoonJson;
-            }
+            sunMoonJson = this.getCached(key);
+            if (sunMoonJson === null) {
+                const chain = new AstronomyProviderChain(this.logger, this.getProviders(apiKey));
+                sunMoonJson = await chain.getSunMoonJson(lat, lon, timeZone, dateParam);
 
-            const url = `https://api.ipgeolocation.io/astronomy?apiKey=${apiKey}&lat=${lat}&long=${lon}&date=${dateParam}`;
-
-            const options: AxiosRequestConfig = {
-                responseType: "json",
-                headers: {                        
-                    "Content-Encoding": "gzip"
-                },
-                timeout: 20000
-            };
-
-            const startTime = new Date();
-            await axios.get(url, options)
-                .then((res: AxiosResponse) => {
-                    if (typeof process.env.TRACK_GET_TIMES !== "undefined" ) {
-                        this.logger.info(`WebImageImage: GET TIME: ${new Date().getTime() - startTime.getTime()}ms`);
+                if (sunMoonJson === null) {
+                    sunMoonJson = await this.getStaleData(lat, lon, timeZone, dateParam, date, lastKey);
+                    if (sunMoonJson === null) {
+                        return null;
                     }
-                    sunMoonJson = res.data as SunMoonJson;
-                    sunMoonJson.lunarAgeDays      = this.getMoonAgeDays(date);
-                    sunMoonJson.lunarIllumination = this.getMoonIllumination(sunMoonJson.lunarAgeDays);
-                    sunMoonJson.lunarWaxWane      = this.getWaxWane(sunMoonJson.lunarAgeDays);
-                    sunMoonJson.lunarPhase        = this.getPhaseStr(sunMoonJson.lunarAgeDays);
-                })
-                .catch((error) => {
-                    this.logger.warn(`SunMoonData: No data: ${error})`);
-                });
-            
-            if (sunMoonJson === null) {
-                return null;
+                    this.cache.set(key, sunMoonJson, this.getExpiration(timeZone, dateParam, true));
+                } else {
+                    this.addDerivedData(sunMoonJson, lat, lon, timeZone, dateParam, date);
+
+                    this.cache.set(key, sunMoonJson, this.getExpiration(timeZone, dateParam));
+                    if (dateParam === today) {
+                        // Kept for if the providers and the local calculation all fail later
+                        this.cache.set(lastKey, sunMoonJson, Date.now() + LAST_GOOD_MS);
+                    }
+                }
             }
 
-            const midnightTonight = moment().tz(timeZone).endOf("day");
-            this.cache.set(key, sunMoonJson, midnightTonight.valueOf());            
+            sunMoonJson = this.atInstant(sunMoonJson, lat, lon, timeZone, instant);
         } catch (e) {
             if (e instanceof Error) {
                 this.logger.error(`SunMoonData: ${e.stack}`);
@@ -136,17 +171,228 @@ export class SunMoonData {
     }
 
     /**
-     * Gets the age of the moon cycle.  New moon is 0.  Full moon is ~14.
-     * - Ref: https://stackoverflow.com/questions/11759992/calculating-jdayjulian-day-in-javascript
-     * @param date A Javascript Date object
-     * @returns the moon cycle age in days (0.0 - 29.0) 
+     * Fetch the data for the next few days into the cache so it is there if the providers are down later
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param apiKey Key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone of the location
+     * @param days Number of days, starting with the first date
+     * @param startDate Optional first date, default is today.  Format is: YYYY-MM-DD
+     * @returns Number of days that have live (not stale) data in the cache
+     * @throws RangeError if days or the start date is not valid
+     */
+    public async prefetch(lat: string, lon: string, apiKey: string, timeZone: string, days: number, startDate = ""): Promise<number> {
+        const start = (startDate === "") ? moment().tz(timeZone).startOf("day") : moment.tz(startDate, "YYYY-MM-DD", true, timeZone);
+        if (!start.isValid()) {
+            throw new RangeError(`SunMoonData: Start date "${startDate}" is not a valid date in YYYY-MM-DD format`);
+        }
+        if (!Number.isInteger(days) || days < 1 || days > MAX_PREFETCH_DAYS) {
+            throw new RangeError(`SunMoonData: Prefetch days ${days} must be a whole number from 1 to ${MAX_PREFETCH_DAYS}`);
+        }
+
+        // One at a time to go easy on the API
+        let fetched = 0;
+        for (let day = 0; day < days; day++) {
+            const dateStr = start.clone().add(day, "days").format("YYYY-MM-DD");
+            const sunMoonJson = await this.getSunMoonData(lat, lon, apiKey, timeZone, dateStr);
+            if (sunMoonJson !== null && sunMoonJson.stale !== true) {
+                fetched++;
+            }
+        }
+
+        this.logger.info(`SunMoonData: Prefetched ${fetched} of ${days} days from ${start.format("YYYY-MM-DD")} for lat: ${lat}, lon: ${lon}`);
+        return fetched;
+    }
+
+    /**
+     * Get the time the cached data for a location expires
+     * - Today and later dates last until the end of the date, past dates do not change so they last HISTORY_CACHE_MS
+     * - Every time is worked out in the time zone, so a 23 or 25 hour day on a DST change ends at the right time
+     * @param timeZone Time zone of the location
+     * @param dateStr Optional date of the data, default is today.  Format is: YYYY-MM-DD
+     * @param stale true for stale data, which expires soon so the providers are tried again
+     * @returns Expiration time in ms since the epoch
+     */
+    public getExpiration(timeZone: string, dateStr = "", stale = false): number {
+        const endOfToday = moment().tz(timeZone).endOf("day").valueOf();
+        if (stale) {
+            return Math.min(endOfToday, Date.now() + STALE_RETRY_MS);
+        }
+
+        const date = moment.tz(dateStr, "YYYY-MM-DD", true, timeZone);
+        if (dateStr === "" || !date.isValid()) {
+            return endOfToday;
+        }
+
+        const endOfDate = date.endOf("day").valueOf();
+        return (endOfDate < endOfToday) ? Date.now() + HISTORY_CACHE_MS : endOfDate;
+    }
+
+    /**
+     * Move the sun and moon markers to another time without fetching the data again
+     * - current_time is set to the instant's time of day in the time zone, the date and events are not changed
+     * - The positions are recalculated if the data was for another time
+     * @param sunMoonJson Data from getSunMoonData().  It is not modified.
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Time zone of the location
+     * @param instant Time to give the positions for, default is now
+     * @returns A copy with timeZone and current_time set
+     */
+    public atInstant(sunMoonJson: SunMoonJson, lat: string, lon: string, timeZone: string, instant: Date = new Date()): SunMoonJson {
+        const currentTime = moment(instant).tz(timeZone).format("HH:mm:ss.SSS");
+        const result: SunMoonJson = {...sunMoonJson, timeZone, current_time: currentTime};
+
+        const toMs = (time: string): number => moment.duration(time).asMilliseconds();
+        if (Math.abs(toMs(currentTime) - toMs(sunMoonJson.current_time)) > POSITION_TOLERANCE_MS) {
+            Object.assign(result, new LocalAstronomyProvider(this.logger).getPositions(Number(lat), Number(lon), timeZone, sunMoonJson.date, currentTime));
+        }
+        return result;
+    }
+
+    /**
+     * Get data to use when every provider failed
+     * - A local calculation for the date is best, it only misses the provider's own values
+     * - Otherwise the last data fetched for the location for the day it was fetched, which may be another day
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     * @param date The instant to calculate the moon phase for
+     * @param lastKey Cache key of the last data fetched for the location
+     * @returns A copy of the data with stale set, or null if there is nothing to use
+     */
+    private async getStaleData(lat: string, lon: string, timeZone: string, dateStr: string, date: Date, lastKey: string): Promise<SunMoonJson | null> {
+        let sunMoonJson: SunMoonJson | null = null;
+        const local = new LocalAstronomyProvider(this.logger);
+        try {
+            sunMoonJson = await local.getSunMoonJson(lat, lon, timeZone, dateStr);
+            if (sunMoonJson !== null) {
+                sunMoonJson.provider = local.name;
+                this.addDerivedData(sunMoonJson, lat, lon, timeZone, dateStr, date);
+            }
+        } catch (e) {
+            this.logger.warn(`SunMoonData: Local calculation failed: ${e}`);
+            sunMoonJson = null;
+        }
+
+        if (sunMoonJson === null) {
+            sunMoonJson = this.getCached(lastKey);
+        }
+
+        if (sunMoonJson === null) {
+            this.logger.warn(`SunMoonData: No stale data for lat: ${lat}, lon: ${lon} either`);
+            return null;
+        }
+
+        this.logger.warn(`SunMoonData: Using stale data from ${sunMoonJson.date} for ${dateStr} (${sunMoonJson.provider ?? "unknown provider"})`);
+        return {...sunMoonJson, stale: true};
+    }
+
+    /**
+     * Get data from the cache, checked and normalized since it may have been written by an older version
+     * @param key Cache key
+     * @returns The data or null if it is not cached or is not usable
      */
-    private getMoonAgeDays(date:  Date): number {
-        const julianDate = date.getTime() / MSEC_PER_DAY - date.getTimezoneOffset() / MIN_PER_DAY + UNIX_EPOCH;
-        let ageDays = (julianDate - LUNAR_REFERENCE) % MOON_PERIOD_DAYS;
-        if (ageDays < 0) ageDays ++; 
+    private getCached(key: string): SunMoonJson | null {
+        const cached = this.cache.get(key);
+        if (cached === null) {
+            return null;
+        }
 
-        return ageDays;
+        try {
+            return normalizeSunMoonJson(cached, "cache");
+        } catch (e) {
+            this.logger.warn(`SunMoonData: Ignoring cached '${key}': ${e instanceof Error ? e.message : e}`);
+            this.cache.delete(key);
+            return null;
+        }
+    }
+
+    /**
+     * Add the values calculated locally for any provider: lunar phase, twilight and sun state
+     */
+    private addDerivedData(sunMoonJson: SunMoonJson, lat: string, lon: string, timeZone: string, dateStr: string, date: Date): void {
+        this.addLunarData(sunMoonJson, date, timeZone);
+        this.addTwilight(sunMoonJson, lat, lon, timeZone, dateStr);
+        this.addSunState(sunMoonJson, lat, lon, timeZone, dateStr);
+    }
+
+    /**
+     * Get the providers to try, in order
+     * - The local calculation is only the default with no apiKey.  Otherwise it is left to getStaleData() so data
+     *   calculated because the API failed is marked stale.
+     * @param apiKey Key for https://api.ipgeolocation.io, "" to only calculate locally
+     * @returns The injected providers or the default list
+     */
+    private getProviders(apiKey: string): Array<AstronomyProviderInterface> {
+        if (this.providers !== undefined && this.providers.length > 0) {
+            return this.providers;
+        }
+
+        if (apiKey !== "") {
+            return [new IpGeolocationProvider(this.logger, apiKey)];
+        }
+        return [new LocalAstronomyProvider(this.logger)];
+    }
+
+    /**
+     * Add civil, nautical and astronomical twilight times and first/last light
+     * - Twilight is always calculated locally since not all providers supply it
+     * @param sunMoonJson Data to update
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     */
+    private addTwilight(sunMoonJson: SunMoonJson, lat: string, lon: string, timeZone: string, dateStr: string): void {
+        const twilight = new LocalAstronomyProvider(this.logger).getTwilight(lat, lon, timeZone, dateStr);
+        if (twilight === null) {
+            return;
+        }
+
+        Object.assign(sunMoonJson, twilight);
+        sunMoonJson.firstLight = [twilight.astronomicalDawn, twilight.nauticalDawn, twilight.civilDawn].find((time) => time !== NO_EVENT) ?? NO_EVENT;
+        sunMoonJson.lastLight  = [twilight.astronomicalDusk, twilight.nauticalDusk, twilight.civilDusk].find((time) => time !== NO_EVENT) ?? NO_EVENT;
+    }
+
+    /**
+     * Add the sun state so polar day and night can be rendered explicitly
+     * @param sunMoonJson Data to update
+     * @param lat lattitude (e.g.: 41.65)
+     * @param lon longitude (e.g.: -71.45)
+     * @param timeZone Show for this timeZone
+     * @param dateStr Date in the time zone.  Format is: YYYY-MM-DD
+     */
+    private addSunState(sunMoonJson: SunMoonJson, lat: string, lon: string, timeZone: string, dateStr: string): void {
+        const sunState = new LocalAstronomyProvider(this.logger).getSunState(lat, lon, timeZone, dateStr);
+        if (sunState !== null) {
+            sunMoonJson.sunState = sunState;
+        }
+    }
+
+    /**
+     * Add the moon age, illumination, phase and the next principal phases from the sun and moon positions
+     * @param sunMoonJson Data to update
+     * @param date The instant to calculate the phase for
+     * @param timeZone Time zone for the next phase times
+     */
+    private addLunarData(sunMoonJson: SunMoonJson, date: Date, timeZone: string): void {
+        const jd = astro.toJulianDay(date);
+        const phase = astro.moonPhase(jd);
+        const toIso = (phaseJd: number): string => moment(astro.fromJulianDay(phaseJd)).tz(timeZone).format();
+
+        sunMoonJson.lunarAgeDays              = jd - astro.findMoonPhase(jd, 0, -1);
+        sunMoonJson.lunarIlluminationFraction = phase.illumination;
+        sunMoonJson.lunarIllumination         = this.getMoonIllumination(phase.illumination);
+        sunMoonJson.lunarPhaseAngle           = phase.phaseAngle;
+        sunMoonJson.lunarBrightLimbAngle      = phase.brightLimbAngle;
+        sunMoonJson.lunarWaxWane              = this.getWaxWane(phase.elongation);
+        sunMoonJson.lunarPhase                = this.getPhaseStr(sunMoonJson.lunarAgeDays);
+        sunMoonJson.nextNewMoon               = toIso(astro.findMoonPhase(jd, 0));
+        sunMoonJson.nextFirstQuarter          = toIso(astro.findMoonPhase(jd, 90));
+        sunMoonJson.nextFullMoon              = toIso(astro.findMoonPhase(jd, 180));
+        sunMoonJson.nextLastQuarter           = toIso(astro.findMoonPhase(jd, 270));
     }
 
     /**
@@ -172,27 +418,21 @@ export class SunMoonData {
     }
     
     /**
-     * Get the illumination percent of the moon
-     *   - Illumination is proportional to the cos function.
-     *   - The ageDays/MOON_PERIOS_DAYS ranges from 0-1 over one full cycle.  Multiple by 360 degrees
-     *   - Cosine ranges from 1 -> 0 -> -1 -> 0 -> 1
-     *   - we need to scale by 50 and add 50 to give us a range of 0 - 100 - 0
-     * @param ageDays age in the cycle 0-29
-     * @returns 
+     * Format the illuminated fraction of the moon as a percentage
+     * @param illumination fraction of the disk that is lit (0.0-1.0)
+     * @returns The percentage (e.g.: 63%)
      */
-    private getMoonIllumination(ageDays: number): string {
-        const illumination = (50 + (50 * Math.cos((ageDays/MOON_PERIOD_DAYS * 360 + 180) * Math.PI/180)));
-        
-        return (`${illumination.toFixed(0)}%`);
+    private getMoonIllumination(illumination: number): string {
+        return (`${(illumination * 100).toFixed(0)}%`);
     }
 
     /**
      * Simple function to return if the moon is waxing or waning
-     * @param ageDays age in the cycle 0-29
+     * @param elongation moon longitude - sun longitude in degrees (0-360)
      * @returns "waxing" or "waning"
      */
-    private getWaxWane(ageDays: number): string {
-        if (ageDays < MOON_PERIOD_DAYS/2)
+    private getWaxWane(elongation: number): string {
+        if (elongation < 180)
             return "waxing";
         else
             return "waning";
@@ -210,7 +450,7 @@ export class SunMoonData {
         else if (ageDays < phaseLength * 5)  return "First Quarter";
         else if (ageDays < phaseLength * 7)  return "Waxing Gibbous";
         else if (ageDays < phaseLength * 9)  return "Full Moon";
-        else if (ageDays < phaseLength * 11) return "Waning Gibbus";
+        else if (ageDays < phaseLength * 11) return "Waning Gibbous";
         else if (ageDays < phaseLength * 13) return "Last Quarter";
         else if (ageDays < phaseLength * 15) return "Waning Crescent";
         else                                 return "New Moon";
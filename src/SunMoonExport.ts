@@ -0,0 +1,165 @@
+import { SunMoonJson, SunState } from "./SunMoonData";
+import { getEventTime, EventTimeField } from "./SunMoonSchema";
+
+// Bump when a field is renamed, removed or changes meaning.  Adding a field does not change the version.
+export const SUN_MOON_EXPORT_VERSION = 1;
+
+export type DataFormat = "json" | "csv";
+
+// All times are ISO 8601 with the offset of the location's time zone (e.g.: "2021-09-01T06:11:00-04:00")
+// or null if the event does not happen on the date (e.g.: no sunset during polar day).  Dusk after midnight is on the next day.
+export interface SunMoonExport {
+    version: number;                      // SUN_MOON_EXPORT_VERSION
+    generated: string;                    // When the document was created, UTC
+    provider: string | null;              // AstronomyProvider that supplied the data
+    stale: boolean;                       // The providers failed, this is a local calculation or older data, see date
+    location: {
+        name: string;
+        lat: number;
+        lon: number;
+        timeZone: string;
+    };
+    date: string;                         // "YYYY-MM-DD" in the time zone
+    sun: {
+        state: SunState | null;
+        sunrise: string | null;
+        sunset: string | null;
+        solarNoon: string | null;
+        dayLengthMinutes: number | null;
+        firstLight: string | null;
+        lastLight: string | null;
+        civilDawn: string | null;
+        civilDusk: string | null;
+        nauticalDawn: string | null;
+        nauticalDusk: string | null;
+        astronomicalDawn: string | null;
+        astronomicalDusk: string | null;
+        altitude: number | null;          // Degrees, at positionTime
+        azimuth: number | null;           // Degrees east of north, at positionTime
+        distanceKm: number | null;
+    };
+    moon: {
+        moonrise: string | null;
+        moonset: string | null;
+        altitude: number | null;
+        azimuth: number | null;
+        distanceKm: number | null;
+        parallacticAngle: number | null;
+        ageDays: number | null;
+        illumination: number | null;      // Illuminated fraction of the disk (0.0-1.0)
+        phaseAngle: number | null;        // Degrees, 0 is full, 180 is new
+        brightLimbAngle: number | null;   // Degrees east of north
+        waxWane: string | null;
+        phase: string | null;             // e.g.: "Waning Crescent"
+        nextNewMoon: string | null;
+        nextFirstQuarter: string | null;
+        nextFullMoon: string | null;
+        nextLastQuarter: string | null;
+    };
+    positionTime: string | null;          // Time the altitudes, azimuths and distances were calculated for
+}
+
+/**
+ * Build the versioned export document from the sun and moon data
+ * @param location Location name (e.g.: "Boston, MA")
+ * @param lat Lattitude in decimal degrees north
+ * @param lon Longitude in decimal degrees east
+ * @param timeZone Time zone of the location (e.g.: "America/New_York")
+ * @param sunMoonJson Data from SunMoonData
+ * @returns The export document
+ */
+export function toSunMoonExport(location: string, lat: string, lon: string, timeZone: string, sunMoonJson: SunMoonJson): SunMoonExport {
+    const date = sunMoonJson.date;
+    const time = (field: EventTimeField): string | null => getEventTime(sunMoonJson, field, timeZone)?.format() ?? null;
+
+    return {
+        version: SUN_MOON_EXPORT_VERSION,
+        generated: new Date().toISOString(),
+        provider: sunMoonJson.provider ?? null,
+        stale: sunMoonJson.stale === true,
+        location: { name: location, lat: Number(lat), lon: Number(lon), timeZone },
+        date,
+        sun: {
+            state: sunMoonJson.sunState ?? null,
+            sunrise: time("sunrise"),
+            sunset: time("sunset"),
+            solarNoon: time("solar_noon"),
+            dayLengthMinutes: getDayLengthMinutes(sunMoonJson),
+            firstLight: time("firstLight"),
+            lastLight: time("lastLight"),
+            civilDawn: time("civilDawn"),
+            civilDusk: time("civilDusk"),
+            nauticalDawn: time("nauticalDawn"),
+            nauticalDusk: time("nauticalDusk"),
+            astronomicalDawn: time("astronomicalDawn"),
+            astronomicalDusk: time("astronomicalDusk"),
+            altitude: sunMoonJson.sun_altitude ?? null,
+            azimuth: sunMoonJson.sun_azimuth ?? null,
+            distanceKm: sunMoonJson.sun_distance ?? null
+        },
+        moon: {
+            moonrise: time("moonrise"),
+            moonset: time("moonset"),
+            altitude: sunMoonJson.moon_altitude ?? null,
+            azimuth: sunMoonJson.moon_azimuth ?? null,
+            distanceKm: sunMoonJson.moon_distance ?? null,
+            parallacticAngle: sunMoonJson.moon_parallactic_angle ?? null,
+            ageDays: sunMoonJson.lunarAgeDays ?? null,
+            illumination: sunMoonJson.lunarIlluminationFraction ?? null,
+            phaseAngle: sunMoonJson.lunarPhaseAngle ?? null,
+            brightLimbAngle: sunMoonJson.lunarBrightLimbAngle ?? null,
+            waxWane: sunMoonJson.lunarWaxWane ?? null,
+            phase: sunMoonJson.lunarPhase ?? null,
+            nextNewMoon: sunMoonJson.nextNewMoon ?? null,
+            nextFirstQuarter: sunMoonJson.nextFirstQuarter ?? null,
+            nextFullMoon: sunMoonJson.nextFullMoon ?? null,
+            nextLastQuarter: sunMoonJson.nextLastQuarter ?? null
+        },
+        positionTime: time("current_time")
+    };
+}
+
+/**
+ * Format the export document
+ * @param sunMoonExport Document from toSunMoonExport()
+ * @param format "json" or "csv".  CSV is a header row with dotted column names (e.g.: "sun.sunrise") and one row of values
+ * @returns The document text
+ */
+export function formatSunMoonExport(sunMoonExport: SunMoonExport, format: DataFormat): string {
+    if (format === "json") {
+        return JSON.stringify(sunMoonExport, null, 4) + "\n";
+    }
+
+    const columns = flatten(sunMoonExport);
+    const header = columns.map(([name]) => csvField(name)).join(",");
+    const values = columns.map(([, value]) => csvField(value === null ? "" : `${value}`)).join(",");
+    return `${header}\r\n${values}\r\n`;
+}
+
+function getDayLengthMinutes(sunMoonJson: SunMoonJson): number | null {
+    switch (sunMoonJson.sunState) {
+    case "always-up":     return 24 * 60;
+    case "twilight-only":
+    case "always-down":   return 0;
+    }
+
+    const match = /^(\d{1,2}):(\d{2})$/.exec(sunMoonJson.day_length ?? "");
+    return (match === null) ? null : Number(match[1]) * 60 + Number(match[2]);
+}
+
+function flatten(value: object, prefix = ""): Array<[string, string | number | null]> {
+    const columns: Array<[string, string | number | null]> = [];
+    for (const [key, item] of Object.entries(value)) {
+        if (item !== null && typeof item === "object") {
+            columns.push(...flatten(item, `${prefix}${key}.`));
+        } else {
+            columns.push([`${prefix}${key}`, item]);
+        }
+    }
+    return columns;
+}
+
+// RFC 4180: quote fields with commas, quotes or line breaks and double the quotes
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, "\"\"")}"` : value;
+}
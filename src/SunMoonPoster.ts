@@ -0,0 +1,451 @@
+import moment from "moment-timezone";
+import * as pure from "pureimage";
+
+import { SunMoonData, SunMoonJson } from "./SunMoonData";
+import { LoggerInterface } from "./Logger";
+import { KacheInterface } from "./Kache";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { ImageOptions, ImageResult, ResolvedImageOptions, resolveImageOptions, getMoonLitOutline, getAngle, formatTime, isTime } from "./Dial";
+import { ImageBuffer, myFillRect, encodeImage, registerFonts } from "./Raster";
+import { Theme } from "./Theme";
+import { Locale } from "./Locale";
+
+// Posters that show many days of the same data as the dial:
+//   Month - a calendar grid, each day has sunrise, sunset and a small moon phase disc
+//   Year  - a "daylight band" chart.  Each day is a column from midnight at the top to midnight at the bottom,
+//           colored for night, each twilight and day, so the sunrise and sunset curves are the edges of the bands.
+//           The times are local clock times so the DST changes show as steps and are marked.
+// The month and weekday names, times, sun text and phase names come from the locale.  The year's title, legend and
+// DST notes are in English.
+
+export type PosterPeriod = "month" | "year";
+
+interface Band {
+    color: string;
+    start: number;                        // Minutes after midnight
+    end: number;                          // May be less than start if the band wraps past midnight
+}
+
+interface DstChange {
+    day: number;                          // Index of the day in the year
+    label: string;
+}
+
+// The poster layouts were designed at this size and are scaled to fit
+const DESIGN_WIDTH  = 1920;
+const DESIGN_HEIGHT = 1080;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export class SunMoonPoster {
+    private logger: LoggerInterface;
+    private cache: KacheInterface;
+    private providers: Array<AstronomyProviderInterface> | undefined;
+
+    /**
+     * Constructor for SunMoonPoster
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param providers Optional list of AstronomyProviders to try in order
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>) {
+        this.logger = logger;
+        this.cache = cache;
+        this.providers = providers;
+    }
+
+    /**
+     * Gets the data for each day of the period and renders the poster
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param period "YYYY-MM" for a month grid or "YYYY" for a year of daylight bands
+     * @param options Optional rendering options (theme, locale, hour12, width, height, format and jpegQuality)
+     * @returns ImageResult or null if the data was not available for a day
+     * @throws ThemeError if the theme is not valid
+     * @throws LocaleError if the locale is not valid
+     * @throws FontError if a font the theme names is missing or can't be loaded
+     * @throws RangeError if the period, time zone or an option is not usable
+     */
+    public async getImage(location: string, lat: string, lon: string, apiKey: string, timeZone: string, period: string, options: ImageOptions = {}): Promise<ImageResult | null> {
+        const resolved = this.resolveOptions(options);
+        const [posterPeriod, start] = this.getPeriod(period, timeZone);
+        const end = start.clone().add(1, (posterPeriod === "month") ? "month" : "year");
+
+        const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+        const days: Array<SunMoonJson> = [];
+        for (const day = start.clone(); day.isBefore(end); day.add(1, "day")) {
+            const sunMoonJson = await sunMoonData.getSunMoonData(lat, lon, apiKey, timeZone, day.format("YYYY-MM-DD"));
+            if (sunMoonJson === null) {
+                this.logger.warn(`SunMoonPoster: No sun and moon data for ${day.format("YYYY-MM-DD")}`);
+                return null;
+            }
+            days.push(sunMoonJson);
+        }
+
+        this.logger.info(`SunMoonPoster: Rendering ${posterPeriod} poster for ${location} ${period}`);
+        registerFonts([resolved.theme.fonts.titleFontFamily, resolved.theme.fonts.textFontFamily], resolved.fonts);
+        const img = pure.make(resolved.width, resolved.height);
+
+        if (posterPeriod === "month") {
+            this.drawMonth(img, resolved.theme, resolved.locale, location, lat, start, days);
+        } else {
+            this.drawYear(img, resolved.theme, resolved.locale, location, timeZone, start, days);
+        }
+
+        return {
+            imageData: await encodeImage(img, resolved.format, resolved.jpegQuality),
+            imageType: resolved.format
+        };
+    }
+
+    /**
+     * Draw a calendar grid for a month
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private drawMonth(img: any, theme: Theme, locale: Locale, location: string, lat: string, start: moment.Moment, days: Array<SunMoonJson>): void {
+        const { width, height } = img;
+        const colors = theme.colors;
+        const scale = Math.min(width / DESIGN_WIDTH, height / DESIGN_HEIGHT);
+        const ctx = img.getContext("2d");
+
+        this.fill(img, 0, 0, width, height, colors.backgroundColor);
+        const titleBottom = this.drawTitle(ctx, theme, scale, width, `${location} - ${start.clone().locale(locale.dateLocale).format("MMMM YYYY")}`);
+
+        const gridLeft   = Math.round(30 * scale);
+        const gridRight  = width - gridLeft;
+        const headerY    = titleBottom + 50 * scale;
+        const gridTop    = Math.round(headerY + 20 * scale);
+        const gridBottom = height - Math.round(20 * scale);
+        const firstWeekday = start.day();
+        const rows = Math.ceil((firstWeekday + days.length) / 7);
+        const cellWidth  = (gridRight - gridLeft) / 7;
+        const cellHeight = (gridBottom - gridTop) / rows;
+        const lineWidth  = Math.max(1, Math.round(2 * scale));
+
+        // Fonts sized to the cells so 4, 5 or 6 rows all fit
+        const numberFontSize = Math.max(8, Math.round(Math.min(cellHeight * 0.26, cellWidth * 0.16)));
+        const textFontSize   = Math.max(8, Math.round(Math.min(cellHeight * 0.19, cellWidth * 0.105)));
+        const glyphRadius    = Math.min(cellHeight, cellWidth) * 0.14;
+
+        ctx.font = `${Math.max(8, Math.round(theme.fonts.extraSmallFontSize * scale))}px ${theme.fonts.textFontFamily}`;
+        ctx.fillStyle = colors.timeLabelColor;
+        // Sunday first in every locale, the same as start.day()
+        moment.localeData(locale.dateLocale).weekdaysShort().forEach((weekday, column) => {
+            const x = gridLeft + (column + 0.5) * cellWidth;
+            ctx.fillText(weekday, x - ctx.measureText(weekday).width / 2, headerY);
+        });
+
+        // Grid lines
+        for (let row = 0; row <= rows; row++) {
+            this.fill(img, gridLeft, gridTop + row * cellHeight, gridRight - gridLeft, lineWidth, colors.circleColor);
+        }
+        for (let column = 0; column <= 7; column++) {
+            this.fill(img, gridLeft + column * cellWidth, gridTop, lineWidth, gridBottom - gridTop, colors.circleColor);
+        }
+
+        const southern = Number(lat) < 0;
+        days.forEach((sunMoonJson, i) => {
+            const cell = firstWeekday + i;
+            const x = gridLeft + (cell % 7) * cellWidth;
+            const y = gridTop + Math.floor(cell / 7) * cellHeight;
+            const pad = cellWidth * 0.05;
+
+            ctx.font = `${numberFontSize}px ${theme.fonts.titleFontFamily}`;
+            ctx.fillStyle = colors.titleColor;
+            ctx.fillText(`${i + 1}`, x + pad, y + pad + numberFontSize * 0.8);
+
+            // Name the principal phases on the day they happen
+            const phase = this.getPrincipalPhase(sunMoonJson, locale);
+            if (phase !== null) {
+                ctx.font = `${textFontSize}px ${theme.fonts.textFontFamily}`;
+                ctx.fillStyle = colors.moonLabelColor;
+                ctx.fillText(phase, x + pad, y + cellHeight * 0.48);
+            }
+
+            this.drawMoonGlyph(ctx, theme, x + cellWidth - pad - glyphRadius, y + pad + glyphRadius, glyphRadius, sunMoonJson, southern);
+
+            ctx.font = `${textFontSize}px ${theme.fonts.textFontFamily}`;
+            ctx.fillStyle = colors.labelColor;
+            const [first, second] = this.getSunLines(sunMoonJson, locale);
+            ctx.fillText(first,  x + pad, y + cellHeight * 0.70);
+            ctx.fillText(second, x + pad, y + cellHeight * 0.70 + textFontSize * 1.15);
+        });
+    }
+
+    /**
+     * Draw the daylight bands for a year
+     */
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private drawYear(img: any, theme: Theme, locale: Locale, location: string, timeZone: string, start: moment.Moment, days: Array<SunMoonJson>): void {
+        const { width, height } = img;
+        const colors = theme.colors;
+        const scale = Math.min(width / DESIGN_WIDTH, height / DESIGN_HEIGHT);
+        const ctx = img.getContext("2d");
+        const smallFontSize = Math.max(8, Math.round(theme.fonts.extraSmallFontSize * scale));
+        const lineWidth = Math.max(1, Math.round(2 * scale));
+
+        this.fill(img, 0, 0, width, height, colors.backgroundColor);
+        const titleBottom = this.drawTitle(ctx, theme, scale, width, `${location} - Daylight ${start.format("YYYY")}`);
+
+        const plotLeft   = Math.round(110 * scale);
+        const plotRight  = width - Math.round(40 * scale);
+        const plotTop    = Math.round(titleBottom + 60 * scale);
+        const plotBottom = height - Math.round(110 * scale);
+        const plotHeight = plotBottom - plotTop;
+        const dayX = (day: number): number => Math.round(plotLeft + day * (plotRight - plotLeft) / days.length);
+        const minuteY = (minutes: number): number => Math.round(plotTop + minutes * plotHeight / MINUTES_PER_DAY);
+
+        // One column per day, darkest band first
+        days.forEach((sunMoonJson, day) => {
+            const x = dayX(day);
+            const columnWidth = dayX(day + 1) - x;
+            this.fill(img, x, plotTop, columnWidth, plotHeight, colors.sunCircleColor);
+            for (const band of this.getBands(sunMoonJson, theme)) {
+                const segments = (band.end >= band.start) ? [[band.start, band.end]] : [[band.start, MINUTES_PER_DAY], [0, band.end]];
+                for (const [from, to] of segments) {
+                    this.fill(img, x, minuteY(from), columnWidth, minuteY(to) - minuteY(from), band.color);
+                }
+            }
+        });
+
+        // Hour lines and labels every 3 hours
+        ctx.font = `${smallFontSize}px ${theme.fonts.textFontFamily}`;
+        ctx.fillStyle = colors.timeLabelColor;
+        for (let hour = 0; hour <= 24; hour += 3) {
+            const y = minuteY(hour * 60);
+            if (hour > 0 && hour < 24) {
+                this.fill(img, plotLeft, y, plotRight - plotLeft, 1, colors.tickColor);
+            }
+            const label = formatTime(`${hour % 24}:00`, this.logger, locale).replace(":00", "");
+            ctx.fillText(label, plotLeft - 10 * scale - ctx.measureText(label).width, y + smallFontSize * 0.35);
+        }
+
+        // Month lines and labels
+        for (let month = 0; month < 12; month++) {
+            const first = start.clone().add(month, "months");
+            const next = first.clone().add(1, "month");
+            const x = dayX(first.diff(start, "days"));
+            this.fill(img, x, plotTop, 1, plotHeight, colors.tickColor);
+            const label = first.clone().locale(locale.dateLocale).format("MMM");
+            const middle = (x + dayX(next.diff(start, "days"))) / 2;
+            ctx.fillText(label, middle - ctx.measureText(label).width / 2, plotBottom + smallFontSize * 1.3);
+        }
+
+        // DST changes, the bands jump by the change in offset on these days
+        ctx.fillStyle = colors.labelColor;
+        for (const change of this.getDstChanges(timeZone, start, days.length)) {
+            const x = dayX(change.day);
+            this.fill(img, x - Math.floor(lineWidth / 2), plotTop - Math.round(10 * scale), lineWidth, plotHeight + Math.round(10 * scale), colors.labelColor);
+            const labelWidth = ctx.measureText(change.label).width;
+            const labelX = Math.min(Math.max(x - labelWidth / 2, plotLeft), plotRight - labelWidth);
+            ctx.fillText(change.label, labelX, plotTop - 18 * scale);
+        }
+
+        // Legend
+        const legend: Array<[string, string]> = [
+            ["Day",                 colors.sunArcColor],
+            ["Civil twilight",      colors.civilTwilightArcColor],
+            ["Nautical twilight",   colors.nauticalTwilightArcColor],
+            ["Astronomical twilight", colors.astroTwilightArcColor],
+            ["Night",               colors.sunCircleColor]
+        ];
+        const swatch = Math.round(smallFontSize * 0.8);
+        const gap = 40 * scale;
+        const legendWidth = legend.reduce((total, [label]) => total + swatch + 10 * scale + ctx.measureText(label).width + gap, -gap);
+        let legendX = (width - legendWidth) / 2;
+        const legendY = height - 25 * scale;
+        for (const [label, color] of legend) {
+            this.fill(img, legendX, legendY - swatch, swatch, swatch, color);
+            legendX += swatch + 10 * scale;
+            ctx.fillStyle = colors.labelColor;
+            ctx.fillText(label, legendX, legendY);
+            legendX += ctx.measureText(label).width + gap;
+        }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private drawTitle(ctx: any, theme: Theme, scale: number, width: number, title: string): number {
+        const fontSize = Math.max(8, Math.round(theme.fonts.largeFontSize * scale));
+        ctx.font = `${fontSize}px ${theme.fonts.titleFontFamily}`;
+        let textWidth = ctx.measureText(title).width;
+        if (textWidth > width * 0.95) {
+            ctx.font = `${Math.floor(fontSize * width * 0.95 / textWidth)}px ${theme.fonts.titleFontFamily}`;
+            textWidth = ctx.measureText(title).width;
+        }
+        ctx.fillStyle = theme.colors.titleColor;
+        const titleY = 90 * scale;
+        ctx.fillText(title, (width - textWidth) / 2, titleY);
+        return titleY;
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    private drawMoonGlyph(ctx: any, theme: Theme, x: number, y: number, radius: number, sunMoonJson: SunMoonJson, southern: boolean): void {
+        const illumination = sunMoonJson.lunarIlluminationFraction ?? parseFloat(sunMoonJson.lunarIllumination ?? "50") / 100;
+
+        // The usual picture: waxing lit on the right in the northern hemisphere, mirrored in the southern
+        const litOnRight = (sunMoonJson.lunarWaxWane === "waxing") !== southern;
+
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(litOnRight ? 0 : Math.PI);
+
+        ctx.beginPath();
+        ctx.fillStyle = theme.colors.moonDarkColor;
+        ctx.arc(0, 0, radius, 0, 2 * Math.PI);
+        ctx.fill();
+
+        ctx.beginPath();
+        ctx.fillStyle = theme.colors.moonLitColor;
+        getMoonLitOutline(radius, illumination).forEach(([px, py], i) => {
+            if (i === 0) ctx.moveTo(px, py);
+            else         ctx.lineTo(px, py);
+        });
+        ctx.closePath();
+        ctx.fill();
+
+        ctx.restore();
+    }
+
+    /**
+     * Text for the sun in a month cell
+     * @returns Two lines, sunrise and sunset or an explanation for polar day and night
+     */
+    private getSunLines(sunMoonJson: SunMoonJson, locale: Locale): [string, string] {
+        const labels = locale.labels;
+        switch (sunMoonJson.sunState) {
+        case "always-up":     return [labels.midnightSun, labels.sunUpAllDay];
+        case "twilight-only": return [labels.polarNight,  labels.twilightOnly];
+        case "always-down":   return [labels.polarNight,  labels.sunDownAllDay];
+        }
+
+        // The short rise and set labels from the moon on the dial fit the cell better than sunrise and sunset
+        const time = (value: string): string => isTime(value) ? formatTime(value, this.logger, locale) : "-:-";
+        return [`${labels.moonrise} ${time(sunMoonJson.sunrise)}`, `${labels.moonset} ${time(sunMoonJson.sunset)}`];
+    }
+
+    /**
+     * The name of the principal phase that happens on the date of the data, if any
+     */
+    private getPrincipalPhase(sunMoonJson: SunMoonJson, locale: Locale): string | null {
+        const phases: Array<[string, string | undefined]> = [
+            [locale.phases.newMoon,      sunMoonJson.nextNewMoon],
+            [locale.phases.firstQuarter, sunMoonJson.nextFirstQuarter],
+            [locale.phases.fullMoon,     sunMoonJson.nextFullMoon],
+            [locale.phases.lastQuarter,  sunMoonJson.nextLastQuarter]
+        ];
+        // The next* times are ISO 8601 in the location's time zone so the date is the first 10 characters
+        const phase = phases.find(([, time]) => time !== undefined && time.substring(0, 10) === sunMoonJson.date);
+        return (phase === undefined) ? null : phase[0];
+    }
+
+    /**
+     * The twilight and day bands for one day, darkest first so each is drawn over the one before
+     * - Only a dawn (or only a dusk) means the other crossing is on another date (e.g.: sunset just after midnight),
+     *   so the band runs to the end (or from the start) of the day
+     * - No dawn or dusk means the sun stays on one side of that altitude all day.  If a brighter event happens
+     *   the sun never gets below it so the band covers the whole day.  On a "normal" day the sun is up at noon,
+     *   so a day without a sunrise or sunset is one where the sun only dips below the horizon between samples.
+     */
+    private getBands(sunMoonJson: SunMoonJson, theme: Theme): Array<Band> {
+        const levels: Array<[string, string | undefined, string | undefined]> = [
+            [theme.colors.astroTwilightArcColor,    sunMoonJson.astronomicalDawn, sunMoonJson.astronomicalDusk],
+            [theme.colors.nauticalTwilightArcColor, sunMoonJson.nauticalDawn,     sunMoonJson.nauticalDusk],
+            [theme.colors.civilTwilightArcColor,    sunMoonJson.civilDawn,        sunMoonJson.civilDusk],
+            [theme.colors.sunArcColor,              sunMoonJson.sunrise,          sunMoonJson.sunset]
+        ];
+
+        const bands: Array<Band> = [];
+        levels.forEach(([color, dawn, dusk], level) => {
+            if (isTime(dawn) || isTime(dusk)) {
+                bands.push({
+                    color,
+                    start: isTime(dawn) ? this.toMinutes(dawn as string) : 0,
+                    end:   isTime(dusk) ? this.toMinutes(dusk as string) : MINUTES_PER_DAY
+                });
+                return;
+            }
+
+            const brighterHappens = sunMoonJson.sunState === "always-up" || sunMoonJson.sunState === "normal" ||
+                levels.slice(level + 1).some(([, brighterDawn, brighterDusk]) => isTime(brighterDawn) || isTime(brighterDusk));
+            if (brighterHappens) {
+                bands.push({ color, start: 0, end: MINUTES_PER_DAY });
+            }
+        });
+        return bands;
+    }
+
+    private toMinutes(time: string): number {
+        return getAngle(time, this.logger) * 4;
+    }
+
+    /**
+     * Find the days in the year when the time zone offset changes
+     * @returns The day index and a label like "DST +1h Mar 14"
+     */
+    private getDstChanges(timeZone: string, start: moment.Moment, dayCount: number): Array<DstChange> {
+        const changes: Array<DstChange> = [];
+        const zone = moment.tz.zone(timeZone);
+        if (zone === null) {
+            return changes;
+        }
+
+        const end = start.clone().add(dayCount, "days").valueOf();
+        zone.untils.forEach((until, i) => {
+            if (until <= start.valueOf() || until >= end || i + 1 >= zone.offsets.length) {
+                return;
+            }
+            const minutes = zone.offsets[i] - zone.offsets[i + 1];          // Offsets are minutes west so this is the change east
+            const change = moment(until).tz(timeZone);
+            const amount = (minutes % 60 === 0) ? `${Math.abs(minutes / 60)}h` : `${Math.abs(minutes)}m`;
+            const label = `${change.isDST() ? "DST starts" : "DST ends"} ${minutes > 0 ? "+" : "-"}${amount} ${change.format("MMM D")}`;
+            changes.push({ day: change.clone().startOf("day").diff(start, "days"), label });
+        });
+        return changes;
+    }
+
+    /**
+     * Fill a rectangle, rounded to whole pixels and clipped to the image
+     */
+    private fill(img: ImageBuffer, x: number, y: number, w: number, h: number, rgb: string): void {
+        const left   = Math.max(0, Math.round(x));
+        const top    = Math.max(0, Math.round(y));
+        const right  = Math.min(img.width,  Math.round(x + w));
+        const bottom = Math.min(img.height, Math.round(y + h));
+        if (right > left && bottom > top) {
+            myFillRect(img, left, top, right - left, bottom - top, rgb);
+        }
+    }
+
+    /**
+     * Check the period and find its first day
+     * @returns The poster type and the start of the first day in the time zone
+     * @throws RangeError if the period or time zone is not usable
+     */
+    private getPeriod(period: string, timeZone: string): [PosterPeriod, moment.Moment] {
+        if (moment.tz.zone(timeZone) === null) {
+            throw new RangeError(`SunMoonPoster: time zone "${timeZone}" is not known`);
+        }
+
+        const posterPeriod: PosterPeriod | null = /^\d{4}-\d{2}$/.test(period) ? "month" : /^\d{4}$/.test(period) ? "year" : null;
+        const start = moment.tz(period, (posterPeriod === "month") ? "YYYY-MM" : "YYYY", true, timeZone);
+        if (posterPeriod === null || !start.isValid()) {
+            throw new RangeError(`SunMoonPoster: period "${period}" is not valid, expected "YYYY-MM" for a month or "YYYY" for a year`);
+        }
+        return [posterPeriod, start];
+    }
+
+    /**
+     * Checks the options and fills in the defaults
+     * @throws RangeError if an option is not usable or the format is "svg"
+     */
+    private resolveOptions(options: ImageOptions): ResolvedImageOptions {
+        const resolved = resolveImageOptions(options);
+        if (resolved.format === "svg") {
+            throw new RangeError("SunMoonPoster: svg is not supported for posters, use jpg, png or rgba");
+        }
+        return resolved;
+    }
+}
@@ -0,0 +1,206 @@
+import moment from "moment-timezone";
+import { SunMoonJson, SunState } from "./SunMoonData";
+
+// A sun, moon or twilight event that does not happen on the date (e.g.: no moonrise, no sunset in polar day)
+export const NO_EVENT = "-:-";
+
+// Ways the providers have been seen to say an event does not happen.  All become NO_EVENT.
+const MISSING_EVENTS = ["-:-", "--:--", "-", ""];
+
+const EVENT_FIELDS = ["sunrise", "sunset", "solar_noon", "moonrise", "moonset"] as const;
+const OPTIONAL_EVENT_FIELDS = ["day_length", "firstLight", "lastLight", "civilDawn", "civilDusk", "nauticalDawn", "nauticalDusk", "astronomicalDawn", "astronomicalDusk"] as const;
+
+// [field, min, max] of the numbers a provider may send, as numbers or numeric strings
+const NUMBER_FIELDS: Array<[keyof SunMoonJson, number, number]> = [
+    ["sun_altitude",           -90,  90],
+    ["sun_azimuth",              0, 360],
+    ["sun_distance",             1, Infinity],
+    ["moon_altitude",          -90,  90],
+    ["moon_azimuth",             0, 360],
+    ["moon_distance",            1, Infinity],
+    ["moon_parallactic_angle", -180, 180],
+    ["lunarAgeDays",             0,  30],
+    ["lunarIlluminationFraction", 0,  1],
+    ["lunarPhaseAngle",          0, 180],
+    ["lunarBrightLimbAngle",     0, 360]
+];
+
+const STRING_FIELDS: Array<keyof SunMoonJson> = ["sun_status", "moon_status", "lunarIllumination", "lunarWaxWane", "lunarPhase",
+    "nextNewMoon", "nextFirstQuarter", "nextFullMoon", "nextLastQuarter", "provider", "timeZone"];
+
+// Strict parsing needs a format for each number of digits
+const TIME_FORMATS = ["HH:mm", "H:mm"].flatMap((hoursMinutes) => ["", ":ss", ":ss.S", ":ss.SS", ":ss.SSS"].map((seconds) => hoursMinutes + seconds));
+
+const SUN_STATES: Array<SunState> = ["normal", "always-up", "twilight-only", "always-down"];
+
+// Dusk is found in the 12 hours after solar noon and dawn in the 12 hours before, so far from the equator in summer
+// they can be past midnight on the next day or before midnight on the day before
+const AFTER_NOON_FIELDS: Array<EventTimeField> = ["lastLight", "civilDusk", "nauticalDusk", "astronomicalDusk"];
+const BEFORE_NOON_FIELDS: Array<EventTimeField> = ["firstLight", "civilDawn", "nauticalDawn", "astronomicalDawn"];
+
+// Fields of SunMoonJson that are a time of day on the date
+export type EventTimeField = typeof EVENT_FIELDS[number] | Exclude<typeof OPTIONAL_EVENT_FIELDS[number], "day_length"> | "current_time";
+
+/**
+ * Sun and moon data that does not match the schema
+ */
+export class SunMoonSchemaError extends Error {
+    public problems: Array<string>;     // Each field that is wrong and why
+
+    constructor(source: string, problems: Array<string>) {
+        super(`${source}: ${problems.join("; ")}`);
+        this.name = "SunMoonSchemaError";
+        this.problems = problems;
+    }
+}
+
+/**
+ * Check the data from a provider or the cache and put it in the one form the rest of the module expects
+ * - date is "YYYY-MM-DD", current_time is "HH:mm:ss.SSS"
+ * - Event times are "HH:mm", or NO_EVENT if the event does not happen on the date
+ * - Numbers sent as strings are converted, unknown fields (e.g.: ipgeolocation's "location") are dropped
+ * - "solor_noon" from data cached by older versions is read as solar_noon
+ * @param raw Parsed JSON
+ * @param source Where the data came from, for the error message (e.g.: "ipgeolocation")
+ * @returns A new, normalized SunMoonJson
+ * @throws SunMoonSchemaError listing every problem found
+ */
+export function normalizeSunMoonJson(raw: unknown, source: string): SunMoonJson {
+    if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+        throw new SunMoonSchemaError(source, [`expected an object, got ${Array.isArray(raw) ? "an array" : typeof raw}`]);
+    }
+
+    const input = raw as {[field: string]: unknown};
+    const problems: Array<string> = [];
+    const result: {[field: string]: unknown} = {};
+
+    if (typeof input.date !== "string" || !moment(input.date, "YYYY-MM-DD", true).isValid()) {
+        problems.push(`date ${JSON.stringify(input.date)} is not a YYYY-MM-DD date`);
+    } else {
+        result.date = input.date;
+    }
+
+    const currentTime = parseTime(input.current_time);
+    if (currentTime === null) {
+        problems.push(`current_time ${JSON.stringify(input.current_time)} is not a HH:mm[:ss[.SSS]] time`);
+    } else {
+        result.current_time = currentTime.format("HH:mm:ss.SSS");
+    }
+
+    for (const field of EVENT_FIELDS) {
+        const rawValue = (field === "solar_noon" && input.solar_noon === undefined) ? input.solor_noon : input[field];
+        if (rawValue === undefined) {
+            problems.push(`${field} is missing`);
+            continue;
+        }
+        const value = normalizeEvent(rawValue);
+        if (value === null) {
+            problems.push(`${field} ${JSON.stringify(rawValue)} is not a HH:mm time or "${NO_EVENT}"`);
+        } else {
+            result[field] = value;
+        }
+    }
+
+    for (const field of OPTIONAL_EVENT_FIELDS) {
+        if (input[field] === undefined) {
+            continue;
+        }
+        // Day length is a duration that can be 24:00 in polar day
+        const value = (field === "day_length" && input[field] === "24:00") ? "24:00" : normalizeEvent(input[field]);
+        if (value === null) {
+            problems.push(`${field} ${JSON.stringify(input[field])} is not a HH:mm time or "${NO_EVENT}"`);
+        } else {
+            result[field] = value;
+        }
+    }
+
+    for (const [field, min, max] of NUMBER_FIELDS) {
+        const value = input[field];
+        if (value === undefined || value === null || value === "") {
+            continue;
+        }
+        const parsed = (typeof value === "string") ? Number(value) : value;
+        if (typeof parsed !== "number" || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+            problems.push(`${field} ${JSON.stringify(value)} is not a number from ${min} to ${max}`);
+        } else {
+            result[field] = parsed;
+        }
+    }
+
+    for (const field of STRING_FIELDS) {
+        const value = input[field];
+        if (value === undefined || value === null) {
+            continue;
+        }
+        if (typeof value !== "string") {
+            problems.push(`${field} ${JSON.stringify(value)} is not a string`);
+        } else {
+            result[field] = value;
+        }
+    }
+
+    if (input.sunState !== undefined) {
+        if (!SUN_STATES.includes(input.sunState as SunState)) {
+            problems.push(`sunState ${JSON.stringify(input.sunState)} is not one of ${SUN_STATES.join(", ")}`);
+        } else {
+            result.sunState = input.sunState;
+        }
+    }
+
+    if (input.stale !== undefined) {
+        result.stale = input.stale === true;
+    }
+
+    if (problems.length > 0) {
+        throw new SunMoonSchemaError(source, problems);
+    }
+    return result as unknown as SunMoonJson;
+}
+
+/**
+ * Get the instant of a time in the data
+ * - Times are on the data's date in the time zone, except dusk and last light earlier than solar noon, which are after
+ *   midnight on the next day, and dawn and first light later than solar noon, which are on the day before
+ * @param sunMoonJson Normalized data
+ * @param field Field with the time (e.g.: "astronomicalDusk")
+ * @param timeZone Time zone of the location
+ * @returns The instant in the time zone, or null if the event does not happen
+ */
+export function getEventTime(sunMoonJson: SunMoonJson, field: EventTimeField, timeZone: string): moment.Moment | null {
+    const time = parseTime(sunMoonJson[field]);
+    if (time === null) {
+        return null;
+    }
+
+    const noon = parseTime(sunMoonJson.solar_noon) ?? moment.utc("12:00", "HH:mm");
+    let days = 0;
+    if (AFTER_NOON_FIELDS.includes(field) && time.isBefore(noon)) {
+        days = 1;
+    } else if (BEFORE_NOON_FIELDS.includes(field) && time.isAfter(noon)) {
+        days = -1;
+    }
+
+    const date = moment.utc(sunMoonJson.date, "YYYY-MM-DD", true).add(days, "days").format("YYYY-MM-DD");
+    const instant = moment.tz(`${date} ${time.format("HH:mm:ss.SSS")}`, "YYYY-MM-DD HH:mm:ss.SSS", true, timeZone);
+    return instant.isValid() ? instant : null;
+}
+
+/**
+ * @param value A time from the data
+ * @returns "HH:mm", NO_EVENT if it says the event does not happen, or null if it is not a time
+ */
+function normalizeEvent(value: unknown): string | null {
+    if (value === null || (typeof value === "string" && MISSING_EVENTS.includes(value.trim()))) {
+        return NO_EVENT;
+    }
+    const time = parseTime(value);
+    return (time === null) ? null : time.format("HH:mm");
+}
+
+function parseTime(value: unknown): moment.Moment | null {
+    if (typeof value !== "string") {
+        return null;
+    }
+    const time = moment.utc(value.trim(), TIME_FORMATS, true);
+    return time.isValid() ? time : null;
+}
@@ -0,0 +1,367 @@
+import http = require("http");
+import crypto = require("crypto");
+import moment from "moment-timezone";
+import { LoggerInterface } from "./Logger";
+import { KacheInterface } from "./Kache";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { SunMoonData, SunMoonJson } from "./SunMoonData";
+import { SunMoonImage, ImageFormat, ImageOptions, Orientation } from "./SunMoonImage";
+import { SunMoonSvgImage } from "./SunMoonSvgImage";
+import { ThemeError, getThemeNames } from "./Theme";
+import { LocaleError, getLocaleNames } from "./Locale";
+import { resolveInstant, resolveImageOptions } from "./Dial";
+
+// Routes:
+//   GET /sunmoon.jpg?lat=42.4&lon=-71.6&tz=America/New_York&date=2021-09-01   (also .png, .svg and .rgba)
+//   GET /sunmoon.json?lat=42.4&lon=-71.6&tz=America/New_York
+//   GET /health
+// Optional image parameters: location, theme (built-in name), width, height, orientation, quality,
+//   locale (built-in name: en, de, fr or es) and hours (12 or 24)
+// Optional at parameter: the instant to draw the sun and moon markers for, ISO 8601 with an offset or ms since the epoch
+//   (e.g.: at=2021-09-01T08:00:00-04:00).  The default is now and the date defaults to the instant's date.
+
+const CONTENT_TYPES: {[format: string]: string} = {
+    "jpg":  "image/jpeg",
+    "png":  "image/png",
+    "svg":  "image/svg+xml",
+    "rgba": "application/octet-stream",   // Raw pixels, the size is in the X-Image-Width and X-Image-Height headers
+    "json": "application/json"
+};
+
+const MAX_IMAGE_SIZE = 7680;             // 8K, keeps one request from allocating a huge bitmap
+const MAX_IMAGE_PIXELS = 7680 * 4320;    // An 8K frame in either orientation, 133MB as RGBA
+const NOW_MAX_AGE_MS = 60 * 1000;        // Without at the markers are for now, so clients get a new image each minute
+
+interface QueryLocation {
+    lat: string;
+    lon: string;
+    timeZone: string;
+    date: string;
+    instant: Date | null;                 // From the at parameter, null for now
+}
+
+interface Representation {
+    lastModified: number;                 // First time this ETag was served, ms since the epoch
+    expiration: number;                   // Kache expiration of the data it was made from
+}
+
+// Request that can't be served, sent to the client with the status and message
+class HttpError extends Error {
+    public status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.name = "HttpError";
+        this.status = status;
+    }
+}
+
+export class SunMoonServer {
+    private logger: LoggerInterface;
+    private cache: KacheInterface;
+    private apiKey: string;
+    private providers: Array<AstronomyProviderInterface> | undefined;
+    private server: http.Server | null = null;
+    private startTime = Date.now();
+    private requestCount = 0;
+    private representations = new Map<string, Representation>();
+
+    /**
+     * Constructor for SunMoonServer
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param providers Optional list of AstronomyProviders to try in order
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, apiKey: string, providers?: Array<AstronomyProviderInterface>) {
+        this.logger = logger;
+        this.cache = cache;
+        this.apiKey = apiKey;
+        this.providers = providers;
+    }
+
+    /**
+     * Start serving
+     * @param port Port to listen on, 0 picks a free port
+     * @param host Address to listen on, default is only this machine
+     * @returns The port the server is listening on
+     */
+    public listen(port = 8080, host = "127.0.0.1"): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const server = http.createServer((req, res) => {
+                this.handleRequest(req, res);
+            });
+            server.once("error", reject);
+            server.listen(port, host, () => {
+                this.server = server;
+                this.startTime = Date.now();
+                const address = server.address();
+                const actualPort = (typeof address === "object" && address !== null) ? address.port : port;
+                this.logger.info(`SunMoonServer: Listening on http://${host}:${actualPort}`);
+                resolve(actualPort);
+            });
+        });
+    }
+
+    /**
+     * Stop serving, waits for requests in progress to finish
+     */
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (this.server === null) {
+                resolve();
+                return;
+            }
+            this.server.close((err) => err ? reject(err) : resolve());
+            this.server = null;
+        });
+    }
+
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const startTime = Date.now();
+        this.requestCount++;
+
+        try {
+            if (req.method !== "GET" && req.method !== "HEAD") {
+                res.setHeader("Allow", "GET, HEAD");
+                throw new HttpError(405, `Method ${req.method} is not allowed`);
+            }
+
+            const url = new URL(req.url ?? "/", "http://localhost");
+            const match = /^\/sunmoon\.(jpg|jpeg|png|svg|rgba|json)$/.exec(url.pathname);
+
+            if (url.pathname === "/health") {
+                this.sendJson(req, res, {
+                    status: "ok",
+                    uptimeSeconds: Math.round((Date.now() - this.startTime) / 1000),
+                    requests: this.requestCount
+                });
+            } else if (match === null) {
+                throw new HttpError(404, `Not found: ${url.pathname}, expected /sunmoon.jpg, .png, .svg, .rgba, .json or /health`);
+            } else {
+                const format = (match[1] === "jpeg") ? "jpg" : match[1];
+                const location = this.getLocation(url.searchParams);
+
+                // Check the image options first so a bad request does not use the API budget or fill the cache
+                const options = (format === "json") ? null : this.getImageOptions(url.searchParams, format as ImageFormat);
+
+                const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+                const sunMoonJson = await sunMoonData.getSunMoonData(location.lat, location.lon, this.apiKey, location.timeZone, location.date, location.instant ?? undefined);
+                if (sunMoonJson === null) {
+                    throw new HttpError(503, "No sun and moon data available");
+                }
+                // Without an instant the markers are for now, so the response is only fresh for a minute.
+                // With one the response only changes with the data.
+                const expiration = (location.instant === null) ?
+                    Math.min(Date.now() + NOW_MAX_AGE_MS, sunMoonData.getExpiration(location.timeZone, "", sunMoonJson.stale === true)) :
+                    sunMoonData.getExpiration(location.timeZone, sunMoonJson.date, sunMoonJson.stale === true);
+                if (sunMoonJson.stale === true) {
+                    res.setHeader("Warning", "110 - \"Response is Stale\"");
+                }
+
+                if (options === null) {
+                    this.sendCacheable(req, res, Buffer.from(JSON.stringify(sunMoonJson, null, 4)), CONTENT_TYPES.json, expiration);
+                } else {
+                    await this.sendImage(req, res, url.searchParams, options, location, sunMoonJson, expiration);
+                }
+            }
+        } catch (e) {
+            this.sendError(req, res, e);
+        }
+
+        this.logger.verbose(`SunMoonServer: ${req.method} ${req.url} ${res.statusCode} ${Date.now() - startTime}ms`);
+    }
+
+    private async sendImage(req: http.IncomingMessage, res: http.ServerResponse, params: URLSearchParams, options: ImageOptions,
+        location: QueryLocation, sunMoonJson: SunMoonJson, expiration: number): Promise<void> {
+        const format = options.format ?? "jpg";
+        const renderer: SunMoonImage | SunMoonSvgImage = (format === "svg") ?
+            new SunMoonSvgImage(this.logger, this.cache, this.providers) :
+            new SunMoonImage(this.logger, this.cache, this.providers);
+
+        const title = params.get("location") ?? `${location.lat}, ${location.lon}`;
+        const image = await renderer.renderImage(title, location.lat, sunMoonJson, options);
+        if (image.imageData === null) {
+            throw new HttpError(500, "No image available");
+        }
+
+        res.setHeader("X-Image-Width", image.imageData.width);
+        res.setHeader("X-Image-Height", image.imageData.height);
+        this.sendCacheable(req, res, image.imageData.data, CONTENT_TYPES[format], expiration);
+    }
+
+    /**
+     * Send a body that stays valid until the cached data expires
+     * - ETag is a hash of the body, Last-Modified is when the server first sent that body
+     * - Conditional requests that still match get a 304 with no body
+     */
+    private sendCacheable(req: http.IncomingMessage, res: http.ServerResponse, body: Buffer, contentType: string, expiration: number): void {
+        const now = Date.now();
+        const etag = `"${crypto.createHash("sha1").update(body).digest("base64url")}"`;
+
+        // Forget the bodies whose data has expired so the map does not grow forever
+        for (const [key, representation] of this.representations) {
+            if (representation.expiration <= now) {
+                this.representations.delete(key);
+            }
+        }
+
+        let representation = this.representations.get(etag);
+        if (representation === undefined) {
+            representation = { lastModified: Math.floor(now / 1000) * 1000, expiration: expiration };
+            this.representations.set(etag, representation);
+        }
+
+        res.setHeader("ETag", etag);
+        res.setHeader("Last-Modified", new Date(representation.lastModified).toUTCString());
+        res.setHeader("Cache-Control", `public, max-age=${Math.max(0, Math.floor((expiration - now) / 1000))}`);
+        res.setHeader("Expires", new Date(expiration).toUTCString());
+
+        const ifNoneMatch = req.headers["if-none-match"];
+        const ifModifiedSince = req.headers["if-modified-since"];
+        const notModified = (ifNoneMatch !== undefined) ?
+            ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*") :
+            (ifModifiedSince !== undefined && Date.parse(ifModifiedSince) >= representation.lastModified);
+
+        if (notModified) {
+            res.statusCode = 304;
+            res.end();
+            return;
+        }
+
+        this.send(req, res, 200, body, contentType);
+    }
+
+    private sendJson(req: http.IncomingMessage, res: http.ServerResponse, json: unknown, status = 200): void {
+        res.setHeader("Cache-Control", "no-store");
+        this.send(req, res, status, Buffer.from(JSON.stringify(json, null, 4)), CONTENT_TYPES.json);
+    }
+
+    private sendError(req: http.IncomingMessage, res: http.ServerResponse, e: unknown): void {
+        let status = 500;
+        let message = (e instanceof Error) ? e.message : `${e}`;
+
+        if (e instanceof HttpError) {
+            status = e.status;
+        } else if (e instanceof RangeError || e instanceof ThemeError || e instanceof LocaleError) {
+            status = 400;                      // Bad size, format, quality, theme or locale in the query
+        } else {
+            this.logger.error(`SunMoonServer: ${req.url}: ${(e instanceof Error) ? e.stack : e}`);
+            message = "Internal server error";
+        }
+
+        if (status >= 400 && status < 500) {
+            this.logger.warn(`SunMoonServer: ${req.url}: ${status} ${message}`);
+        }
+        this.sendJson(req, res, { error: message }, status);
+    }
+
+    private send(req: http.IncomingMessage, res: http.ServerResponse, status: number, body: Buffer, contentType: string): void {
+        res.statusCode = status;
+        res.setHeader("Content-Type", contentType);
+        res.setHeader("Content-Length", body.length);
+        res.end(req.method === "HEAD" ? undefined : body);
+    }
+
+    /**
+     * Get and check the location and date from the query
+     * @param params Query parameters (lat, lon, tz and optional date and at)
+     * @returns The location
+     * @throws HttpError 400 describing the first bad parameter
+     */
+    private getLocation(params: URLSearchParams): QueryLocation {
+        const lat = params.get("lat");
+        const lon = params.get("lon");
+        const timeZone = params.get("tz");
+        const date = params.get("date") ?? "";
+
+        if (lat === null || lon === null || timeZone === null) {
+            throw new HttpError(400, "lat, lon and tz are required");
+        }
+
+        for (const [name, value, limit] of [["lat", lat, 90], ["lon", lon, 180]] as Array<[string, string, number]>) {
+            const parsed = Number(value);
+            if (value.trim() === "" || !Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+                throw new HttpError(400, `${name} "${value}" must be a number from -${limit} to ${limit}`);
+            }
+        }
+
+        if (moment.tz.zone(timeZone) === null) {
+            throw new HttpError(400, `tz "${timeZone}" is not a known time zone, e.g.: America/New_York`);
+        }
+
+        if (date !== "" && !moment(date, "YYYY-MM-DD", true).isValid()) {
+            throw new HttpError(400, `date "${date}" is not a valid date in YYYY-MM-DD format`);
+        }
+
+        const at = params.get("at");
+        let instant: Date | null = null;
+        if (at !== null) {
+            try {
+                instant = resolveInstant(/^\d+$/.test(at) ? Number(at) : at);
+            } catch (e) {
+                throw new HttpError(400, `at "${at}" is not a valid time, expected ISO 8601 with an offset (e.g.: 2021-09-01T08:00:00-04:00) or ms since the epoch`);
+            }
+        }
+
+        return { lat, lon, timeZone, date, instant };
+    }
+
+    /**
+     * Get and check the rendering options from the query
+     * @param params Query parameters
+     * @param format Format from the path
+     * @returns Options for the renderer
+     * @throws HttpError 400, RangeError, ThemeError or LocaleError if an option is not usable
+     */
+    private getImageOptions(params: URLSearchParams, format: ImageFormat): ImageOptions {
+        const options: ImageOptions = { format };
+
+        const theme = params.get("theme");
+        if (theme !== null) {
+            // Theme files are for the server's own config, clients only get the built-in themes
+            if (!getThemeNames().includes(theme)) {
+                throw new HttpError(400, `theme "${theme}" is not valid, expected one of: ${getThemeNames().join(", ")}`);
+            }
+            options.theme = theme;
+        }
+
+        const locale = params.get("locale");
+        if (locale !== null) {
+            // Same as themes, locale files are only for the server's config
+            if (!getLocaleNames().includes(locale)) {
+                throw new HttpError(400, `locale "${locale}" is not valid, expected one of: ${getLocaleNames().join(", ")}`);
+            }
+            options.locale = locale;
+        }
+
+        const hours = params.get("hours");
+        if (hours !== null) {
+            if (hours !== "12" && hours !== "24") {
+                throw new HttpError(400, `hours "${hours}" is not valid, expected 12 or 24`);
+            }
+            options.hour12 = hours === "12";
+        }
+
+        for (const [name, key] of [["width", "width"], ["height", "height"], ["quality", "jpegQuality"]] as Array<[string, "width" | "height" | "jpegQuality"]>) {
+            const value = params.get(name);
+            if (value !== null) {
+                options[key] = Number(value);
+            }
+            if (key !== "jpegQuality" && options[key] !== undefined && (options[key] as number) > MAX_IMAGE_SIZE) {
+                throw new HttpError(400, `${name} ${value} is too large, the maximum is ${MAX_IMAGE_SIZE}`);
+            }
+        }
+
+        const orientation = params.get("orientation");
+        if (orientation !== null) {
+            options.orientation = orientation as Orientation;
+        }
+
+        const { width, height } = resolveImageOptions(options);
+        if (width * height > MAX_IMAGE_PIXELS) {
+            throw new HttpError(400, `${width}x${height} is too large, the maximum is ${MAX_IMAGE_PIXELS} pixels (e.g.: 7680x4320)`);
+        }
+        return options;
+    }
+}
@@ -0,0 +1,305 @@
+import { SunMoonData, SunMoonJson } from "./SunMoonData";
+import { LoggerInterface } from "./Logger";
+import { KacheInterface} from "./Kache";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { ImageOptions, ImageResult, resolveImageOptions, getDialLayout, getDialModel, getMoonLitOutline, getRenderAngle } from "./Dial";
+
+// Open Sans is about 0.55em per character.  SVG has no way to measure text so this is used to fit the title and date.
+const AVERAGE_CHAR_WIDTH = 0.55;
+
+/**
+ * Draws the same dial as SunMoonImage as an SVG document so it can be scaled without artifacts.
+ * The layout and everything to draw comes from Dial so the two stay in sync.
+ */
+export class SunMoonSvgImage {
+    private cache: KacheInterface;
+    private logger: LoggerInterface;
+    private providers: Array<AstronomyProviderInterface> | undefined;
+
+    /**
+     * Constructor for SunMoonSvgImage
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param providers Optional list of AstronomyProviders to try in order
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>) {
+        this.logger = logger;
+        this.cache = cache;
+        this.providers = providers;
+    }
+
+    /**
+     * Gets data from SunMoonData and generates an SVG document with the sun and moon rise and set
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param dateStr Optional dataString in "YYYY-MM-DD" format, default is the date of options.instant
+     * @param options Optional rendering options (e.g.: theme, width, height, orientation, instant).  format is ignored.
+     * @returns ImageResult with imageType "svg" and the UTF-8 document in imageData.data, or null
+     * @throws ThemeError if the theme is not valid
+     * @throws LocaleError if the locale is not valid
+     * @throws RangeError if the width, height or instant is not usable
+     */
+    public async getImage(location: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr = "", options: ImageOptions = {}) : Promise<ImageResult | null> {
+        // Check the options first so bad options fail before we fetch any data
+        const { instant } = resolveImageOptions({...options, format: "svg"});
+
+        const sunMoonData: SunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+
+        const sunMoonJson: SunMoonJson | null = await sunMoonData.getSunMoonData(lat, lon, apiKey, timeZone, dateStr, instant);
+
+        if (sunMoonJson === null) {
+            return null;
+        }
+
+        return this.renderImage(location, lat, sunMoonJson, options);
+    }
+
+    /**
+     * Generates the SVG document from data that has already been fetched
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param lat Lattitude in decimal degrees north
+     * @param sunMoonJson Data from SunMoonData.getSunMoonData().  It is not modified.  The markers are drawn at its
+     *                    current_time, options.instant is not used (SunMoonData.atInstant() moves them).
+     * @param options Optional rendering options (e.g.: theme, width, height, orientation).  format is ignored.
+     * @returns ImageResult with imageType "svg" and the UTF-8 document in imageData.data
+     * @throws ThemeError if the theme is not valid
+     * @throws LocaleError if the locale is not valid
+     * @throws RangeError if the width or height is not usable
+     */
+    public async renderImage(location: string, lat: string, sunMoonJson: SunMoonJson, options: ImageOptions = {}) : Promise<ImageResult> {
+        const { theme, portrait, width, height, clock, locale } = resolveImageOptions({...options, format: "svg"});
+
+        this.logger.info(`SunMoonSvgImage: Rendering ${location} ${sunMoonJson.date} with data from ${sunMoonJson.provider ?? "unknown provider"}`);
+
+        const layout = getDialLayout(theme, width, height, portrait);
+        const model  = getDialModel(sunMoonJson, location, lat, theme, layout, this.logger, clock, locale);
+        const dial   = (value: number): number => value * layout.dialScale;
+
+        const { imageWidth, imageHeight, centerX, centerY, sunCircleRadius, moonCircleRadius, sunArcWidth, moonArcWidth, sunRadius, moonRadius, centerMoonRadius } = layout;
+        const colors = theme.colors;
+
+        const titleFont = `font-family="'${this.escape(theme.fonts.titleFontFamily)}', 'Open Sans', sans-serif" font-weight="bold"`;
+        const textFont  = `font-family="'${this.escape(theme.fonts.textFontFamily)}', 'Open Sans', sans-serif"`;
+
+        const svg: Array<string> = [];
+        svg.push(`<svg xmlns="http://www.w3.org/2000/svg" width="${imageWidth}" height="${imageHeight}" viewBox="0 0 ${imageWidth} ${imageHeight}">`);
+        svg.push(`<rect x="0" y="0" width="${imageWidth}" height="${imageHeight}" fill="${colors.backgroundColor}"/>`);
+
+        // Title, shrinking the font if a long location name would not fit
+        let titleSize = layout.largeFontSize;
+        if (this.textWidth(model.title, titleSize) > imageWidth * 0.95) {
+            titleSize = Math.floor(titleSize * imageWidth * 0.95 / this.textWidth(model.title, titleSize));
+        }
+        svg.push(this.text(model.title, imageWidth/2, layout.titleY, titleSize, titleFont, colors.titleColor));
+
+        // Minor tick marks on the hour and major tick marks every 6 hours
+        for (let i = 15; i <= 360; i += 15) {
+            svg.push(this.radialLine(centerX, centerY, i * Math.PI/180, sunCircleRadius - dial(25), sunCircleRadius + dial(25), colors.tickColor, layout.thinLineWidth));
+        }
+        for (let i = 90; i <= 360; i += 90) {
+            svg.push(this.radialLine(centerX, centerY, i * Math.PI/180, sunCircleRadius - dial(30), sunCircleRadius + dial(30), colors.tickColor, layout.majorTickLineWidth));
+        }
+
+        // Path circles for the sun and the moon, slightly narrower than the arcs drawn over them
+        svg.push(this.circle(centerX, centerY, sunCircleRadius, "none", colors.sunCircleColor, sunArcWidth - dial(4)));
+        svg.push(this.circle(centerX, centerY, moonCircleRadius, "none", colors.moonArcColor, moonArcWidth/2));
+
+        // Major time labels
+        svg.push(this.text(model.majorTimeTexts.noon,     centerX, centerY - (sunCircleRadius + dial(50)),                              layout.smallFontSize, textFont, colors.timeLabelColor));
+        svg.push(this.text(model.majorTimeTexts.midnight, centerX, centerY + (sunCircleRadius + layout.smallFontCharHeight + dial(50)), layout.smallFontSize, textFont, colors.timeLabelColor));
+        svg.push(this.text(model.majorTimeTexts.sixAm,    centerX - (sunCircleRadius + dial(60)), centerY + layout.smallFontCharHeight/2, layout.smallFontSize, textFont, colors.timeLabelColor, "end"));
+        svg.push(this.text(model.majorTimeTexts.sixPm,    centerX + (sunCircleRadius + dial(60)), centerY + layout.smallFontCharHeight/2, layout.smallFontSize, textFont, colors.timeLabelColor, "start"));
+
+        // Sun up arc and the twilight bands
+        for (const arc of model.sunArcs) {
+            if (arc.fullCircle) {
+                svg.push(this.circle(centerX, centerY, sunCircleRadius, "none", arc.color, sunArcWidth));
+            } else {
+                svg.push(this.arc(centerX, centerY, sunCircleRadius, getRenderAngle(arc.startAngle), getRenderAngle(arc.endAngle), arc.color, sunArcWidth, "butt"));
+            }
+        }
+
+        for (const angle of model.sunTickAngles) {
+            svg.push(this.radialLine(centerX, centerY, getRenderAngle(angle), sunCircleRadius - dial(50), sunCircleRadius + dial(50), colors.labelColor, layout.tickLineWidth));
+        }
+
+        // Moon up arc with round ends
+        svg.push(this.arc(centerX, centerY, moonCircleRadius, getRenderAngle(model.moonriseAngle), getRenderAngle(model.moonsetAngle), colors.moonUpColor, moonArcWidth, "round"));
+
+        // Sun on the arc at the current time, clearing the arc under it first
+        const currentRenderAngle = getRenderAngle(model.currentTimeAngle);
+        const sunX = centerX + sunCircleRadius * Math.cos(currentRenderAngle);
+        const sunY = centerY + sunCircleRadius * Math.sin(currentRenderAngle);
+        svg.push(this.circle(sunX, sunY, sunRadius + dial(5), colors.backgroundColor));
+        svg.push(this.circle(sunX, sunY, sunRadius, colors.sunArcColor));
+        svg.push(this.circle(sunX, sunY, sunRadius - dial(3), model.sunIsUp ? colors.sunUpColor : colors.sunDownColor));
+
+        // Moon phase disc on the moon arc and a larger one in the center.  Below the horizon the one on the arc
+        // is a plain disc in the moon down color instead of the phase.
+        const moonX = centerX + moonCircleRadius * Math.cos(currentRenderAngle);
+        const moonY = centerY + moonCircleRadius * Math.sin(currentRenderAngle);
+        svg.push(this.circle(moonX, moonY, moonRadius + dial(5), colors.backgroundColor));
+        const moonDiscs: Array<[number, number, number]> = [[centerX, centerY - dial(70), centerMoonRadius]];
+        if (model.moonIsUp) {
+            moonDiscs.unshift([moonX, moonY, moonRadius]);
+        } else {
+            svg.push(this.circle(moonX, moonY, moonRadius, colors.moonDownColor));
+        }
+        for (const [x, y, radius] of moonDiscs) {
+            const outline = getMoonLitOutline(radius, model.moonIllumination).map(([px, py]) => `${this.num(px)},${this.num(py)}`).join(" ");
+            svg.push(`<g transform="translate(${this.num(x)} ${this.num(y)}) rotate(${this.num(model.moonDiscRotation * 180/Math.PI)})">`);
+            svg.push(this.circle(0, 0, radius, colors.moonDarkColor));
+            svg.push(`<polygon points="${outline}" fill="${colors.moonLitColor}"/>`);
+            svg.push(this.circle(0, 0, radius, "none", colors.moonOutlineColor, layout.thinLineWidth));
+            svg.push("</g>");
+        }
+
+        // Labels for sunrise, sunset and each twilight boundary
+        for (const label of model.sunLabels) {
+            svg.push(this.text(label.label, label.x, label.y,                            layout.smallFontSize, textFont, colors.labelColor));
+            svg.push(this.text(label.value, label.x, label.y + layout.labelValueOffsetY, layout.smallFontSize, textFont, colors.labelColor));
+        }
+
+        svg.push(this.text(model.moonPhaseText,        centerX, centerY + dial(50),  layout.mediumFontSize, textFont, colors.labelColor));
+        svg.push(this.text(model.moonIlluminationText, centerX, centerY + dial(110), layout.mediumFontSize, textFont, colors.labelColor));
+
+        svg.push(this.text(model.moonriseLabel,                      model.moonriseSlot.labelX, model.moonriseSlot.labelY, layout.extraSmallFontSize, textFont, colors.labelColor));
+        svg.push(this.text(model.moonriseText, model.moonriseSlot.timeX,  model.moonriseSlot.timeY,  layout.extraSmallFontSize, textFont, colors.labelColor));
+        svg.push(this.text(model.moonsetLabel,                       model.moonsetSlot.labelX,  model.moonsetSlot.labelY,  layout.extraSmallFontSize, textFont, colors.labelColor));
+        svg.push(this.text(model.moonsetText,  model.moonsetSlot.timeX,   model.moonsetSlot.timeY,   layout.extraSmallFontSize, textFont, colors.labelColor));
+
+        for (const angle of [model.moonriseAngle, model.moonsetAngle]) {
+            svg.push(this.radialLine(centerX, centerY, getRenderAngle(angle), moonCircleRadius - dial(40), moonCircleRadius + dial(30), colors.moonLabelColor, layout.tickLineWidth));
+        }
+
+        // Date in the lower right
+        const dateX = Math.min(imageWidth * 3/4, imageWidth - this.textWidth(model.dateText, layout.extraSmallFontSize) - 20 * layout.scale);
+        svg.push(this.text(model.dateText, dateX, layout.dateY, layout.extraSmallFontSize, textFont, colors.titleColor, "start"));
+
+        // The clock and any stale data flag in the lower left
+        let leftX = 20 * layout.scale;
+        if (model.clockText !== null) {
+            svg.push(this.text(model.clockText, leftX, layout.dateY, layout.smallFontSize, textFont, colors.titleColor, "start"));
+            leftX += this.textWidth(model.clockText, layout.smallFontSize) + 30 * layout.scale;
+        }
+        if (model.staleText !== null) {
+            svg.push(this.text(model.staleText, leftX, layout.dateY, layout.extraSmallFontSize, textFont, colors.titleColor, "start"));
+        }
+
+        svg.push("</svg>");
+
+        return {
+            imageData: {data: Buffer.from(svg.join("\n") + "\n", "utf8"), width: imageWidth, height: imageHeight},
+            imageType: "svg"
+        };
+    }
+
+    /**
+     * Clockwise arc from startAngle to endAngle, the same as ctx.arc()
+     * @param cx Center X
+     * @param cy Center Y
+     * @param r Radius
+     * @param startAngle Radians clockwise from the X axis
+     * @param endAngle Radians clockwise from the X axis
+     * @param color Stroke color
+     * @param width Stroke width
+     * @param lineCap "butt" or "round"
+     * @returns path element or "" if the arc is empty
+     */
+    private arc(cx: number, cy: number, r: number, startAngle: number, endAngle: number, color: string, width: number, lineCap: string): string {
+        let sweep = (endAngle - startAngle) % (2 * Math.PI);
+        if (sweep < 0) {
+            sweep += 2 * Math.PI;
+        }
+        if (sweep === 0) {
+            return "";
+        }
+
+        const x0 = cx + r * Math.cos(startAngle);
+        const y0 = cy + r * Math.sin(startAngle);
+        const x1 = cx + r * Math.cos(startAngle + sweep);
+        const y1 = cy + r * Math.sin(startAngle + sweep);
+        const largeArc = sweep > Math.PI ? 1 : 0;
+        return `<path d="M ${this.num(x0)} ${this.num(y0)} A ${this.num(r)} ${this.num(r)} 0 ${largeArc} 1 ${this.num(x1)} ${this.num(y1)}" ` +
+               `fill="none" stroke="${color}" stroke-width="${this.num(width)}" stroke-linecap="${lineCap}"/>`;
+    }
+
+    /**
+     * Line along a radius of the dial, used for tick marks
+     * @param cx Center X
+     * @param cy Center Y
+     * @param angle Radians clockwise from the X axis
+     * @param from Distance from the center to start
+     * @param to Distance from the center to end
+     * @param color Stroke color
+     * @param width Stroke width
+     * @returns line element
+     */
+    private radialLine(cx: number, cy: number, angle: number, from: number, to: number, color: string, width: number): string {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return `<line x1="${this.num(cx + from * cos)}" y1="${this.num(cy + from * sin)}" x2="${this.num(cx + to * cos)}" y2="${this.num(cy + to * sin)}" ` +
+               `stroke="${color}" stroke-width="${this.num(width)}"/>`;
+    }
+
+    /**
+     * Filled and/or stroked circle
+     * @param cx Center X
+     * @param cy Center Y
+     * @param r Radius
+     * @param fill Fill color or "none"
+     * @param stroke Optional stroke color
+     * @param width Optional stroke width
+     * @returns circle element
+     */
+    private circle(cx: number, cy: number, r: number, fill: string, stroke?: string, width?: number): string {
+        const strokeAttrs = (stroke !== undefined && width !== undefined) ? ` stroke="${stroke}" stroke-width="${this.num(width)}"` : "";
+        return `<circle cx="${this.num(cx)}" cy="${this.num(cy)}" r="${this.num(r)}" fill="${fill}"${strokeAttrs}/>`;
+    }
+
+    /**
+     * Text with its baseline at y
+     * @param str Text to draw
+     * @param x Position of the anchor
+     * @param y Baseline
+     * @param size Font size in pixels
+     * @param font font-family (and weight) attributes
+     * @param color Fill color
+     * @param anchor "middle" (default), "start" or "end"
+     * @returns text element
+     */
+    private text(str: string, x: number, y: number, size: number, font: string, color: string, anchor = "middle"): string {
+        return `<text x="${this.num(x)}" y="${this.num(y)}" font-size="${size}" ${font} fill="${color}" text-anchor="${anchor}">${this.escape(str)}</text>`;
+    }
+
+    /**
+     * Estimate the width of a string since SVG text can't be measured here
+     * @param str Text
+     * @param size Font size in pixels
+     * @returns Approximate width in pixels
+     */
+    private textWidth(str: string, size: number): number {
+        return str.length * size * AVERAGE_CHAR_WIDTH;
+    }
+
+    /**
+     * Format a coordinate with at most 2 decimal places to keep the document small
+     * @param value Number to format
+     * @returns String for an attribute
+     */
+    private num(value: number): string {
+        return `${Math.round(value * 100) / 100}`;
+    }
+
+    /**
+     * Escape text for use in an SVG document
+     * @param str Text
+     * @returns Text with XML special characters replaced
+     */
+    private escape(str: string): string {
+        return str.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;");
+    }
+}
@@ -0,0 +1,158 @@
+import path from "path";
+import moment from "moment-timezone";
+
+import { SunMoonData } from "./SunMoonData";
+import { LoggerInterface } from "./Logger";
+import { KacheInterface } from "./Kache";
+import { AstronomyProviderInterface } from "./AstronomyProvider";
+import { EncodedImage, ImageFormat, ImageOptions, resolveImageOptions, resolveInstant } from "./Dial";
+import { SunMoonImage } from "./SunMoonImage";
+import { SunMoonSvgImage } from "./SunMoonSvgImage";
+import { encodeApng } from "./Raster";
+
+// A day on the dial as a sequence of frames, the sun and moon markers moving from midnight to midnight.
+// The data is fetched once and each frame moves the markers with SunMoonData.atInstant(), so a day of
+// frames costs one request.  The day is local midnight to local midnight, 23 or 25 hours on a DST change.
+
+export type TimeLapseAnimation = "apng" | "frames";
+
+export interface TimeLapseOptions extends ImageOptions {
+    intervalMinutes?: number;           // Time between frames, 1 to 360, default 15
+    frameDelayMs?: number;              // How long each frame is shown in the APNG, 10 to 10000, default 100
+    animation?: TimeLapseAnimation;     // "apng" (default, format must be png) or "frames" for a numbered sequence in the format
+}
+
+export interface TimeLapseResult {
+    imageType: ImageFormat;             // Extension for the APNG ("png") or the frames
+    animated: EncodedImage | null;      // The APNG, null for frames
+    frames: Array<EncodedImage>;        // Each frame in order, empty for an APNG
+    instants: Array<Date>;              // Time of each frame
+}
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+const MAX_INTERVAL_MINUTES     = 360;
+const DEFAULT_FRAME_DELAY_MS   = 100;
+
+/**
+ * Name for a frame of a sequence, numbered so the files sort in order (e.g.: "images/OnsetSunMoon-007.jpg")
+ * @param fileName Name for the time-lapse, the extension is replaced
+ * @param index Frame number from 0
+ * @param frameCount Number of frames, for the width of the number
+ * @param imageType Extension of the frames
+ * @returns File name for the frame
+ */
+export function getFrameFileName(fileName: string, index: number, frameCount: number, imageType: string): string {
+    const parsed = path.parse(fileName);
+    const digits = Math.max(3, `${frameCount - 1}`.length);
+    return path.join(parsed.dir, `${parsed.name}-${`${index}`.padStart(digits, "0")}.${imageType}`);
+}
+
+export class SunMoonTimeLapse {
+    private logger: LoggerInterface;
+    private cache: KacheInterface;
+    private providers: Array<AstronomyProviderInterface> | undefined;
+
+    /**
+     * Constructor for SunMoonTimeLapse
+     * @param logger Object that implements the LoggerInterface
+     * @param cache Object that implements to KacheInterface
+     * @param providers Optional list of AstronomyProviders to try in order
+     */
+    constructor(logger: LoggerInterface, cache: KacheInterface, providers?: Array<AstronomyProviderInterface>) {
+        this.logger = logger;
+        this.cache = cache;
+        this.providers = providers;
+    }
+
+    /**
+     * Gets the data for the day once and renders a frame for every interval with a clock
+     * @param location Location name for the title (e.g.: "Boston, MA")
+     * @param lat Lattitude in decimal degrees north
+     * @param lon Longitude in decimal degrees east (negative for west)
+     * @param apiKey API key for https://api.ipgeolocation.io, "" to calculate locally
+     * @param timeZone Time zone (e.g.: "America/New_York")
+     * @param dateStr Optional date in "YYYY-MM-DD" format, default is the date of options.instant (today)
+     * @param options Optional rendering options plus the interval, frame delay and animation.  The clock is on unless clock is false.
+     * @returns TimeLapseResult or null if the data was not available
+     * @throws ThemeError if the theme is not valid
+     * @throws LocaleError if the locale is not valid
+     * @throws FontError if a font the theme names is missing or can't be loaded
+     * @throws RangeError if the time zone or an option is not usable
+     */
+    public async getTimeLapse(location: string, lat: string, lon: string, apiKey: string, timeZone: string, dateStr = "", options: TimeLapseOptions = {}): Promise<TimeLapseResult | null> {
+        if (moment.tz.zone(timeZone) === null) {
+            throw new RangeError(`SunMoonTimeLapse: time zone "${timeZone}" is not known`);
+        }
+        const { animation, format, intervalMinutes, frameDelayMs } = this.resolveOptions(options);
+
+        const date = (dateStr !== "") ? dateStr : moment(resolveInstant(options.instant)).tz(timeZone).format("YYYY-MM-DD");
+        const start = moment.tz(date, "YYYY-MM-DD", true, timeZone);
+        if (!start.isValid()) {
+            throw new RangeError(`SunMoonTimeLapse: date "${dateStr}" is not valid, expected "YYYY-MM-DD"`);
+        }
+        const end = start.clone().add(1, "day");
+
+        const instants: Array<Date> = [];
+        for (const instant = start.clone(); instant.isBefore(end); instant.add(intervalMinutes, "minutes")) {
+            instants.push(instant.toDate());
+        }
+
+        const sunMoonData = new SunMoonData(this.logger, this.cache, this.providers);
+        const sunMoonJson = await sunMoonData.getSunMoonData(lat, lon, apiKey, timeZone, date, instants[0]);
+        if (sunMoonJson === null) {
+            return null;
+        }
+
+        this.logger.info(`SunMoonTimeLapse: Rendering ${instants.length} frames of ${location} ${date}, every ${intervalMinutes} minutes`);
+        const renderer: SunMoonImage | SunMoonSvgImage = (format === "svg") ?
+            new SunMoonSvgImage(this.logger, this.cache, this.providers) :
+            new SunMoonImage(this.logger, this.cache, this.providers);
+        const frameOptions: ImageOptions = {...options, format, clock: options.clock ?? true};
+
+        const frames: Array<EncodedImage> = [];
+        for (const instant of instants) {
+            const frame = await renderer.renderImage(location, lat, sunMoonData.atInstant(sunMoonJson, lat, lon, timeZone, instant), frameOptions);
+            if (frame.imageData === null) {
+                return null;
+            }
+            frames.push(frame.imageData);
+        }
+
+        if (animation === "apng") {
+            return {imageType: "png", animated: encodeApng(frames, frameDelayMs), frames: [], instants};
+        }
+        return {imageType: format, animated: null, frames, instants};
+    }
+
+    /**
+     * Checks the time-lapse and image options and fills in the defaults
+     * @throws ThemeError if the theme is not valid
+     * @throws LocaleError if the locale is not valid
+     * @throws RangeError if an option is not usable
+     */
+    private resolveOptions(options: TimeLapseOptions): {animation: TimeLapseAnimation, format: ImageFormat, intervalMinutes: number, frameDelayMs: number} {
+        const animation = options.animation ?? "apng";
+        if (animation !== "apng" && animation !== "frames") {
+            throw new RangeError(`SunMoonTimeLapse: animation "${animation}" is not valid, expected apng or frames`);
+        }
+
+        const format: ImageFormat = options.format ?? ((animation === "apng") ? "png" : "jpg");
+        if (animation === "apng" && format !== "png") {
+            throw new RangeError(`SunMoonTimeLapse: an APNG is made from png frames, not ${format}.  Use animation "frames" for other formats`);
+        }
+
+        const intervalMinutes = options.intervalMinutes ?? DEFAULT_INTERVAL_MINUTES;
+        if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1 || intervalMinutes > MAX_INTERVAL_MINUTES) {
+            throw new RangeError(`SunMoonTimeLapse: intervalMinutes ${intervalMinutes} is not valid, expected a whole number from 1 to ${MAX_INTERVAL_MINUTES}`);
+        }
+
+        const frameDelayMs = options.frameDelayMs ?? DEFAULT_FRAME_DELAY_MS;
+        if (!Number.isInteger(frameDelayMs) || frameDelayMs < 10 || frameDelayMs > 10000) {
+            throw new RangeError(`SunMoonTimeLapse: frameDelayMs ${frameDelayMs} is not valid, expected a whole number from 10 to 10000`);
+        }
+
+        // Checks the theme, size and the rest before any data is fetched
+        resolveImageOptions({...options, format});
+        return {animation, format, intervalMinutes, frameDelayMs};
+    }
+}
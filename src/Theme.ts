@@ -0,0 +1,284 @@
+import fs = require("fs");
+
+// All colors must be "#rrggbb".  The background is filled by myFillRect() which only parses that format.
+export interface ThemeColors {
+    backgroundColor: string;
+    circleColor: string;
+    timeLabelColor: string;
+    tickColor: string;
+    sunCircleColor: string;             // Night, the path of the sun when it is below the horizon
+    sunArcColor: string;
+    sunUpColor: string;
+    sunDownColor: string;
+    civilTwilightArcColor: string;
+    nauticalTwilightArcColor: string;
+    astroTwilightArcColor: string;
+    moonArcColor: string;
+    moonUpColor: string;
+    moonDownColor: string;
+    moonLitColor: string;
+    moonDarkColor: string;
+    moonOutlineColor: string;
+    moonLabelColor: string;
+    titleColor: string;
+    labelColor: string;
+}
+
+export interface ThemeFonts {
+    titleFontFamily: string;            // Must be a registered font (e.g.: "OpenSans-Bold")
+    textFontFamily: string;
+    largeFontSize: number;              // Title, in pixels
+    mediumFontSize: number;             // Moon phase
+    smallFontSize: number;              // Sun labels and times
+    extraSmallFontSize: number;         // Moon labels and times
+}
+
+export interface ThemeLayout {
+    sunCircleRadius: number;
+    moonCircleRadius: number;
+    sunArcWidth: number;
+    moonArcWidth: number;
+    sunRadius: number;                  // The actual sun drawn on the circle
+    moonRadius: number;                 // The moon drawn on the moon circle
+    centerMoonRadius: number;           // The larger moon in the center of the dial
+}
+
+export interface Theme {
+    name: string;
+    colors: ThemeColors;
+    fonts: ThemeFonts;
+    layout: ThemeLayout;
+}
+
+// A custom theme file only needs the values that differ from its base theme
+export interface ThemeFile {
+    name?: string;
+    base?: string;                      // Name of a built-in theme, default is "light"
+    colors?: Partial<ThemeColors>;
+    fonts?: Partial<ThemeFonts>;
+    layout?: Partial<ThemeLayout>;
+}
+
+export class ThemeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ThemeError";
+    }
+}
+
+const lightTheme: Theme = {
+    name: "light",
+    colors: {
+        backgroundColor:          "#FFFFFA",
+        circleColor:              "#B0B0B0",
+        timeLabelColor:           "#B0B0B0",
+        tickColor:                "#B0B0B0",
+        sunCircleColor:           "#504773",
+        sunArcColor:              "#FCD303",
+        sunUpColor:               "#FDF000",
+        sunDownColor:             "#D1AF02",
+        civilTwilightArcColor:    "#D45B0B",
+        nauticalTwilightArcColor: "#9A3506",
+        astroTwilightArcColor:    "#6A2A28",
+        moonArcColor:             "#D0D0D0",
+        moonUpColor:              "#707070",
+        moonDownColor:            "#808080",
+        moonLitColor:             "#F4EEC4",
+        moonDarkColor:            "#4A4A58",
+        moonOutlineColor:         "#707070",
+        moonLabelColor:           "#707070",
+        titleColor:               "#2020F0",
+        labelColor:               "#2020F0"
+    },
+    fonts: {
+        titleFontFamily:          "OpenSans-Bold",
+        textFontFamily:           "OpenSans-Regular",
+        largeFontSize:            72,
+        mediumFontSize:           48,
+        smallFontSize:            40,
+        extraSmallFontSize:       30
+    },
+    layout: {
+        sunCircleRadius:          380,
+        moonCircleRadius:         300,
+        sunArcWidth:              20,
+        moonArcWidth:             33,
+        sunRadius:                35,
+        moonRadius:               35,
+        centerMoonRadius:         65
+    }
+};
+
+const darkTheme: Theme = {
+    name: "dark",
+    colors: {
+        backgroundColor:          "#101018",
+        circleColor:              "#505058",
+        timeLabelColor:           "#707078",
+        tickColor:                "#606068",
+        sunCircleColor:           "#2C2844",
+        sunArcColor:              "#D8B000",
+        sunUpColor:               "#F0E000",
+        sunDownColor:             "#A08400",
+        civilTwilightArcColor:    "#B04A08",
+        nauticalTwilightArcColor: "#7A2A05",
+        astroTwilightArcColor:    "#4A1E1C",
+        moonArcColor:             "#303038",
+        moonUpColor:              "#8A8A90",
+        moonDownColor:            "#606068",
+        moonLitColor:             "#E8E2BC",
+        moonDarkColor:            "#26262E",
+        moonOutlineColor:         "#8A8A90",
+        moonLabelColor:           "#8A8A90",
+        titleColor:               "#A0B0FF",
+        labelColor:               "#A0B0FF"
+    },
+    fonts: { ...lightTheme.fonts },
+    layout: { ...lightTheme.layout }
+};
+
+// Only dim reds on black so it does not ruin dark adapted eyes
+const nightRedTheme: Theme = {
+    name: "night-red",
+    colors: {
+        backgroundColor:          "#000000",
+        circleColor:              "#300000",
+        timeLabelColor:           "#600000",
+        tickColor:                "#500000",
+        sunCircleColor:           "#200000",
+        sunArcColor:              "#A00000",
+        sunUpColor:               "#C00000",
+        sunDownColor:             "#700000",
+        civilTwilightArcColor:    "#780000",
+        nauticalTwilightArcColor: "#580000",
+        astroTwilightArcColor:    "#380000",
+        moonArcColor:             "#280000",
+        moonUpColor:              "#700000",
+        moonDownColor:            "#500000",
+        moonLitColor:             "#B00000",
+        moonDarkColor:            "#180000",
+        moonOutlineColor:         "#600000",
+        moonLabelColor:           "#800000",
+        titleColor:               "#A00000",
+        labelColor:               "#900000"
+    },
+    fonts: { ...lightTheme.fonts },
+    layout: { ...lightTheme.layout }
+};
+
+const builtInThemes: {[name: string]: Theme} = {
+    "light":     lightTheme,
+    "dark":      darkTheme,
+    "night-red": nightRedTheme
+};
+
+/**
+ * @returns The names of the built-in themes (e.g.: ["light", "dark", "night-red"])
+ */
+export function getThemeNames(): Array<string> {
+    return Object.keys(builtInThemes);
+}
+
+/**
+ * Gets a theme by name, from a JSON file or validates a theme object
+ * @param theme Built-in theme name ("light", "dark", "night-red"), path to a .json theme file, or a Theme object
+ * @returns A validated copy of the theme
+ * @throws ThemeError if the theme is unknown or not valid
+ */
+export function getTheme(theme: Theme | string = "light"): Theme {
+    if (typeof theme !== "string") {
+        return validateTheme(theme);
+    }
+
+    // Own keys only, "constructor" or "toString" must not find something on Object.prototype
+    if (Object.hasOwn(builtInThemes, theme)) {
+        return validateTheme(builtInThemes[theme]);
+    }
+
+    if (theme.toLowerCase().endsWith(".json")) {
+        return loadTheme(theme);
+    }
+
+    throw new ThemeError(`Unknown theme "${theme}", expected one of: ${Object.keys(builtInThemes).join(", ")} or a .json file`);
+}
+
+/**
+ * Loads a custom theme from a JSON file.  Values not in the file come from the base theme.
+ * @param fileName Path to the JSON file (see ThemeFile)
+ * @returns A validated theme
+ * @throws ThemeError if the file can't be read or the theme is not valid
+ */
+export function loadTheme(fileName: string): Theme {
+    let themeFile: ThemeFile;
+    try {
+        themeFile = JSON.parse(fs.readFileSync(fileName).toString()) as ThemeFile;
+    } catch (e) {
+        throw new ThemeError(`Unable to read theme file "${fileName}": ${e instanceof Error ? e.message : e}`);
+    }
+
+    if (themeFile === null || typeof themeFile !== "object" || Array.isArray(themeFile)) {
+        throw new ThemeError(`Theme file "${fileName}" must contain a JSON object`);
+    }
+
+    const baseName = themeFile.base ?? "light";
+    if (typeof baseName !== "string" || !Object.hasOwn(builtInThemes, baseName)) {
+        throw new ThemeError(`Theme file "${fileName}": unknown base theme "${baseName}", expected one of: ${Object.keys(builtInThemes).join(", ")}`);
+    }
+    const base = builtInThemes[baseName];
+
+    return validateTheme({
+        name:   themeFile.name ?? fileName,
+        colors: { ...base.colors, ...themeFile.colors },
+        fonts:  { ...base.fonts,  ...themeFile.fonts },
+        layout: { ...base.layout, ...themeFile.layout }
+    });
+}
+
+/**
+ * Checks that every value the renderer needs is present and usable
+ * @param theme Theme to check
+ * @returns A copy of the theme
+ * @throws ThemeError describing the first problem found
+ */
+function validateTheme(theme: Theme): Theme {
+    const name = theme?.name ?? "unnamed";
+
+    for (const key of Object.keys(lightTheme.colors) as Array<keyof ThemeColors>) {
+        const color = theme.colors?.[key];
+        if (typeof color !== "string" || !/^#[0-9a-fA-F]{6}$/.test(color)) {
+            throw new ThemeError(`Theme "${name}": colors.${key} is ${JSON.stringify(color)}, expected a color like "#rrggbb"`);
+        }
+    }
+
+    for (const key of ["titleFontFamily", "textFontFamily"] as Array<keyof ThemeFonts>) {
+        const family = theme.fonts?.[key];
+        if (typeof family !== "string" || family === "") {
+            throw new ThemeError(`Theme "${name}": fonts.${key} is ${JSON.stringify(family)}, expected a font family name`);
+        }
+    }
+
+    for (const key of ["largeFontSize", "mediumFontSize", "smallFontSize", "extraSmallFontSize"] as Array<keyof ThemeFonts>) {
+        const size = theme.fonts?.[key];
+        if (typeof size !== "number" || !(size > 0)) {
+            throw new ThemeError(`Theme "${name}": fonts.${key} is ${JSON.stringify(size)}, expected a positive number of pixels`);
+        }
+    }
+
+    for (const key of Object.keys(lightTheme.layout) as Array<keyof ThemeLayout>) {
+        const value = theme.layout?.[key];
+        if (typeof value !== "number" || !(value > 0)) {
+            throw new ThemeError(`Theme "${name}": layout.${key} is ${JSON.stringify(value)}, expected a positive number of pixels`);
+        }
+    }
+
+    return copyTheme(theme);
+}
+
+function copyTheme(theme: Theme): Theme {
+    return {
+        name:   theme.name,
+        colors: { ...theme.colors },
+        fonts:  { ...theme.fonts },
+        layout: { ...theme.layout }
+    };
+}
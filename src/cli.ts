@@ -0,0 +1,635 @@
+import fs = require("fs");
+import path from "path";
+import dotenv from "dotenv";
+import moment from "moment-timezone";
+import { parseArgs } from "util";
+import { Logger } from "./Logger";
+import { Kache } from "./Kache";
+import { SimpleImageWriter } from "./SimpleImageWriter";
+import { SunMoonBuilder, BatchJob, CreateOptions } from "./SunMoonBuilder";
+import { SunMoonServer } from "./SunMoonServer";
+import { ImageFormat, Orientation } from "./SunMoonImage";
+import { DataFormat } from "./SunMoonExport";
+import { SunMoonCalendar, CalendarEventType } from "./SunMoonCalendar";
+import { SunMoonPoster } from "./SunMoonPoster";
+import { SunMoonTimeLapse, getFrameFileName } from "./SunMoonTimeLapse";
+import { SunMoonData } from "./SunMoonData";
+import { resolveImageOptions } from "./Dial";
+import { ThemeError } from "./Theme";
+import { LocaleError } from "./Locale";
+
+// Command line interface, installed as "sun-moon-builder" by the bin entry in package.json
+//   sun-moon-builder render --lat 42.4 --lon -71.6 --tz America/New_York --output images/onset.png
+//   sun-moon-builder batch --config sites.json
+//   sun-moon-builder data --lat 42.4 --lon -71.6 --tz America/New_York --json
+//   sun-moon-builder prefetch --lat 42.4 --lon -71.6 --tz America/New_York --days 7
+//   sun-moon-builder poster --lat 42.4 --lon -71.6 --tz America/New_York --period 2021 -o onset-2021.png
+//   sun-moon-builder timelapse --lat 42.4 --lon -71.6 --tz America/New_York --interval 10 -o onset-day.png
+//   sun-moon-builder calendar --lat 42.4 --lon -71.6 --tz America/New_York --from 2021-11-01 --to 2021-11-30 -o onset.ics
+//   sun-moon-builder serve --port 8080
+//   sun-moon-builder cache clear
+
+const CACHE_NAME = "sunmoon-cache.json";   // Same file the test wrapper uses, in the current directory unless --cache is given
+
+const EXIT_OK      = 0;
+const EXIT_FAILED  = 1;                    // The command ran but could not produce its output
+const EXIT_USAGE   = 2;                    // Bad command line or config file
+
+const USAGE = `Usage: sun-moon-builder <command> [options]
+
+Commands:
+  render            Render one image
+  batch             Render the jobs listed in a JSON config file
+  data              Print the sun and moon data for a location
+  prefetch          Fetch the next days into the cache so images can be made if the providers are down
+  poster            Render a month grid (--period YYYY-MM) or a year of daylight bands (--period YYYY)
+  timelapse         Render a day with the sun and moon moving and a clock, as an APNG or numbered frames
+  calendar          Write an iCalendar (.ics) file of sun and moon events for a range of dates
+  serve             Serve images and data over HTTP, e.g.: /sunmoon.jpg?lat=42.4&lon=-71.6&tz=America/New_York
+  cache clear       Delete the cached sun and moon data
+
+Location options (render, poster, data, prefetch, calendar):
+  --lat <deg>            Lattitude in decimal degrees north (required)
+  --lon <deg>            Longitude in decimal degrees east, negative for west (required)
+  --tz <zone>            Time zone, e.g.: America/New_York (required)
+  --date <YYYY-MM-DD>    Date to show, default is today.  First date for prefetch
+  --location <name>      Name for the title, default is "<lat>, <lon>"
+
+Image options (render, poster, timelapse):
+  -o, --output <file>    Output file, the extension is changed to match the format (default: sunmoon.jpg)
+  --width <px>           Image width, default 1920
+  --height <px>          Image height, default 1080
+  --orientation <o>      landscape or portrait
+  --theme <theme>        light, dark, night-red or a .json theme file
+  --locale <locale>      Language of the dial and posters: en, de, fr, es or a .json locale file
+  --hours <12|24>        12 or 24 hour times, default is the locale's
+  --font <family=file>   TTF file for a font family a theme names, e.g.: OpenSans-Bold=/usr/share/fonts/Bold.ttf.
+                         May be repeated.  The fonts in the package are used for the others
+  --format <fmt>         jpg, png, rgba or svg
+  --quality <1-100>      JPEG quality, default 80
+  --at <time>            Draw the sun and moon for this time instead of now, ISO 8601 with an offset
+                         (e.g.: 2021-09-01T08:00:00-04:00) or ms since the epoch.  The date defaults to its date
+  --data <formats>       Also write the data next to the image: json, csv or json,csv
+
+Prefetch options:
+  --days <n>             Number of days, default 7
+
+Poster options:
+  --period <period>      YYYY-MM for a month grid, YYYY for a year of daylight bands (required)
+
+Timelapse options:
+  --interval <min>       Minutes between frames, default 15
+  --delay <ms>           How long each frame is shown in the APNG, default 100
+  --frames               Write numbered frames (e.g.: sunmoon-000.jpg) in the format instead of an APNG
+
+Batch options:
+  --config <file>        JSON file with {"jobs": [...]} or an array of jobs (see BatchJob in index.d.ts)
+  --concurrency <n>      Jobs in progress at once, default 4
+  --output-dir <dir>     Directory for the images, default is the directory of the config file
+
+Data options:
+  --json                 Print the raw JSON instead of a summary
+
+Calendar options:
+  --from <YYYY-MM-DD>    First date (required)
+  --to <YYYY-MM-DD>      Last date, at most 366 days (required)
+  --events <types>       Comma separated: sun, twilight, moon, phases (default: all)
+  -o, --output <file>    Output file (default: sunmoon.ics)
+
+Serve options:
+  --port <n>             Port to listen on, default 8080
+  --host <address>       Address to listen on, default 127.0.0.1, use 0.0.0.0 for all interfaces
+
+Common options:
+  --api-key <key>        Key for api.ipgeolocation.io, default is env IPGEOLOACATION_API_KEY, "" calculates locally
+  --cache <file>         Cache file, default ./sunmoon-cache.json
+  --verbose              Log progress
+  -h, --help             Show this help
+`;
+
+interface BatchConfig {
+    apiKey?: string;
+    concurrency?: number;
+    outputDir?: string;
+    jobs: Array<BatchJob>;
+}
+
+// Problem with the command line or config, reported with the usage hint and EXIT_USAGE
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "UsageError";
+    }
+}
+
+const options = {
+    "lat":          { type: "string" },
+    "lon":          { type: "string" },
+    "tz":           { type: "string" },
+    "date":         { type: "string" },
+    "location":     { type: "string" },
+    "output":       { type: "string", short: "o" },
+    "width":        { type: "string" },
+    "height":       { type: "string" },
+    "orientation":  { type: "string" },
+    "theme":        { type: "string" },
+    "locale":       { type: "string" },
+    "hours":        { type: "string" },
+    "font":         { type: "string", multiple: true },
+    "format":       { type: "string" },
+    "quality":      { type: "string" },
+    "at":           { type: "string" },
+    "data":         { type: "string" },
+    "config":       { type: "string" },
+    "concurrency":  { type: "string" },
+    "output-dir":   { type: "string" },
+    "json":         { type: "boolean" },
+    "days":         { type: "string" },
+    "period":       { type: "string" },
+    "interval":     { type: "string" },
+    "delay":        { type: "string" },
+    "frames":       { type: "boolean" },
+    "from":         { type: "string" },
+    "to":           { type: "string" },
+    "events":       { type: "string" },
+    "port":         { type: "string" },
+    "host":         { type: "string" },
+    "api-key":      { type: "string" },
+    "cache":        { type: "string" },
+    "verbose":      { type: "boolean" },
+    "help":         { type: "boolean", short: "h" }
+} as const;
+
+type Flags = ReturnType<typeof parseArgs<{options: typeof options, allowPositionals: true}>>["values"];
+
+async function main(argv: Array<string>): Promise<number> {
+    let flags: Flags;
+    let positionals: Array<string>;
+    try {
+        ({ values: flags, positionals } = parseArgs({ args: joinNegativeNumbers(argv), options, allowPositionals: true, strict: true }));
+    } catch (e) {
+        return usageError(e instanceof Error ? e.message : `${e}`);
+    }
+
+    const [command, ...rest] = positionals;
+    if (flags.help || command === undefined) {
+        process.stdout.write(USAGE);
+        return command === undefined && !flags.help ? EXIT_USAGE : EXIT_OK;
+    }
+
+    dotenv.config();  // Load IPGEOLOACATION_API_KEY from .env into the environment
+
+    // JSON goes to stdout so keep the log on stderr-only levels unless asked for
+    const logger = new Logger("sun-moon-builder", flags.verbose ? "verbose" : "error");
+
+    try {
+        switch (command) {
+        case "render":
+            expectNoArgs(command, rest);
+            return await render(flags, logger);
+        case "batch":
+            expectNoArgs(command, rest);
+            return await batch(flags, logger);
+        case "data":
+            expectNoArgs(command, rest);
+            return await data(flags, logger);
+        case "prefetch":
+            expectNoArgs(command, rest);
+            return await prefetch(flags, logger);
+        case "poster":
+            expectNoArgs(command, rest);
+            return await poster(flags, logger);
+        case "timelapse":
+            expectNoArgs(command, rest);
+            return await timelapse(flags, logger);
+        case "calendar":
+            expectNoArgs(command, rest);
+            return await calendar(flags, logger);
+        case "serve":
+            expectNoArgs(command, rest);
+            return await serve(flags, logger);
+        case "cache":
+            return cache(flags, rest, logger);
+        default:
+            throw new UsageError(`Unknown command "${command}"`);
+        }
+    } catch (e) {
+        if (e instanceof UsageError) {
+            return usageError(e.message);
+        }
+        console.error(`sun-moon-builder: ${e instanceof Error ? e.message : e}`);
+        return EXIT_FAILED;
+    }
+}
+
+async function render(flags: Flags, logger: Logger): Promise<number> {
+    const { lat, lon, timeZone, date } = getLocation(flags);
+    const output = flags.output ?? "sunmoon.jpg";
+    const imageOptions = getImageOptions(flags);
+
+    const builder = new SunMoonBuilder(logger, openCache(flags, logger), new SimpleImageWriter(logger, path.dirname(output)));
+    const [result] = await builder.CreateImagesBatch([{
+        location: flags.location ?? `${lat}, ${lon}`,
+        fileName: path.basename(output),
+        lat, lon, timeZone, date,
+        options: imageOptions
+    }], getApiKey(flags));
+
+    if (!result.success) {
+        console.error(`sun-moon-builder render: ${result.error}`);
+        return EXIT_FAILED;
+    }
+
+    for (const fileName of [result.fileName ?? "", ...result.dataFileNames]) {
+        console.log(path.join(path.dirname(output), fileName));
+    }
+    return EXIT_OK;
+}
+
+async function batch(flags: Flags, logger: Logger): Promise<number> {
+    if (flags.config === undefined) {
+        throw new UsageError("batch requires --config <file>");
+    }
+
+    const config = readBatchConfig(flags.config);
+    const outputDir = flags["output-dir"] ?? config.outputDir ?? path.dirname(flags.config);
+    const concurrency = (flags.concurrency !== undefined) ? parseInteger("--concurrency", flags.concurrency, 1) : config.concurrency;
+    const apiKey = (flags["api-key"] !== undefined) ? flags["api-key"] : config.apiKey ?? getApiKey(flags);
+
+    const builder = new SunMoonBuilder(logger, openCache(flags, logger), new SimpleImageWriter(logger, outputDir));
+    const results = await builder.CreateImagesBatch(config.jobs, apiKey, concurrency);
+
+    let failed = 0;
+    for (const result of results) {
+        if (result.success) {
+            console.log(`ok      ${path.join(outputDir, result.fileName ?? "")} (${result.bytesWritten} bytes, ${result.durationMs}ms)`);
+        } else {
+            console.log(`FAILED  ${result.job.fileName}: ${result.error}`);
+            failed++;
+        }
+    }
+
+    if (failed > 0) {
+        console.error(`sun-moon-builder batch: ${failed} of ${results.length} jobs failed`);
+        return EXIT_FAILED;
+    }
+    return EXIT_OK;
+}
+
+async function data(flags: Flags, logger: Logger): Promise<number> {
+    const { lat, lon, timeZone, date } = getLocation(flags);
+
+    const builder = new SunMoonBuilder(logger, openCache(flags, logger), new SimpleImageWriter(logger, "."));
+    const sunMoonJson = await builder.GetSunMoonData(lat, lon, getApiKey(flags), timeZone, date ?? "");
+    if (sunMoonJson === null) {
+        console.error("sun-moon-builder data: No sun and moon data available");
+        return EXIT_FAILED;
+    }
+
+    if (flags.json) {
+        console.log(JSON.stringify(sunMoonJson, null, 4));
+    } else {
+        const width = Math.max(...Object.keys(sunMoonJson).map((key) => key.length));
+        for (const [key, value] of Object.entries(sunMoonJson)) {
+            console.log(`${key.padEnd(width)}  ${value}`);
+        }
+    }
+    return EXIT_OK;
+}
+
+async function prefetch(flags: Flags, logger: Logger): Promise<number> {
+    const { lat, lon, timeZone, date } = getLocation(flags);
+    const days = parseInteger("--days", flags.days ?? "7", 1);
+
+    const sunMoonData = new SunMoonData(logger, openCache(flags, logger));
+    let fetched: number;
+    try {
+        fetched = await sunMoonData.prefetch(lat, lon, getApiKey(flags), timeZone, days, date ?? "");
+    } catch (e) {
+        if (e instanceof RangeError) {
+            throw new UsageError(e.message.replace(/^SunMoonData: /, ""));
+        }
+        throw e;
+    }
+
+    console.log(`Prefetched ${fetched} of ${days} days`);
+    return (fetched === days) ? EXIT_OK : EXIT_FAILED;
+}
+
+async function poster(flags: Flags, logger: Logger): Promise<number> {
+    const { lat, lon, timeZone } = getLocation(flags);
+    if (flags.period === undefined) {
+        throw new UsageError("poster requires --period YYYY-MM or YYYY");
+    }
+    if (flags.data !== undefined) {
+        throw new UsageError("--data is only for render");
+    }
+
+    const output = flags.output ?? "sunmoon.jpg";
+    const imageOptions = getImageOptions(flags);
+    const sunMoonPoster = new SunMoonPoster(logger, openCache(flags, logger));
+    const location = flags.location ?? `${lat}, ${lon}`;
+    let result;
+    try {
+        result = await sunMoonPoster.getImage(location, lat, lon, getApiKey(flags), timeZone, flags.period, imageOptions);
+    } catch (e) {
+        if (e instanceof RangeError) {
+            throw new UsageError(e.message.replace(/^SunMoonPoster: /, ""));
+        }
+        throw e;
+    }
+    if (result === null || result.imageData === null) {
+        console.error("sun-moon-builder poster: No sun and moon data available");
+        return EXIT_FAILED;
+    }
+
+    const parsed = path.parse(output);
+    const outputName = path.join(parsed.dir, `${parsed.name}.${result.imageType}`);
+    new SimpleImageWriter(logger, parsed.dir === "" ? "." : parsed.dir).saveFile(`${parsed.name}.${result.imageType}`, result.imageData.data);
+    console.log(outputName);
+    return EXIT_OK;
+}
+
+async function timelapse(flags: Flags, logger: Logger): Promise<number> {
+    const { lat, lon, timeZone, date } = getLocation(flags);
+    if (flags.data !== undefined) {
+        throw new UsageError("--data is only for render");
+    }
+
+    const output = flags.output ?? (flags.frames ? "sunmoon.jpg" : "sunmoon.png");
+    const options = {
+        ...getImageOptions({...flags, output}),
+        animation: flags.frames ? "frames" as const : "apng" as const,
+        intervalMinutes: (flags.interval !== undefined) ? parseInteger("--interval", flags.interval, 1) : undefined,
+        frameDelayMs: (flags.delay !== undefined) ? parseInteger("--delay", flags.delay, 1) : undefined
+    };
+    const sunMoonTimeLapse = new SunMoonTimeLapse(logger, openCache(flags, logger));
+    const location = flags.location ?? `${lat}, ${lon}`;
+    let result;
+    try {
+        result = await sunMoonTimeLapse.getTimeLapse(location, lat, lon, getApiKey(flags), timeZone, date ?? "", options);
+    } catch (e) {
+        if (e instanceof RangeError) {
+            throw new UsageError(e.message.replace(/^(SunMoonTimeLapse|Dial): /, ""));
+        }
+        throw e;
+    }
+    if (result === null) {
+        console.error("sun-moon-builder timelapse: No sun and moon data available");
+        return EXIT_FAILED;
+    }
+
+    const parsed = path.parse(output);
+    const writer = new SimpleImageWriter(logger, parsed.dir === "" ? "." : parsed.dir);
+    const files: Array<[string, Buffer]> = (result.animated !== null) ?
+        [[`${parsed.name}.${result.imageType}`, result.animated.data]] :
+        result.frames.map((frame, index) => [getFrameFileName(parsed.base, index, result.frames.length, result.imageType), frame.data]);
+    for (const [fileName, data] of files) {
+        writer.saveFile(fileName, data);
+        console.log(path.join(parsed.dir, fileName));
+    }
+    return EXIT_OK;
+}
+
+async function calendar(flags: Flags, logger: Logger): Promise<number> {
+    const { lat, lon, timeZone } = getLocation(flags);
+    if (flags.from === undefined || flags.to === undefined) {
+        throw new UsageError("calendar requires --from and --to");
+    }
+    for (const [flag, value] of [["--from", flags.from], ["--to", flags.to]]) {
+        if (!moment(value, "YYYY-MM-DD", true).isValid()) {
+            throw new UsageError(`${flag} "${value}" is not a valid date in YYYY-MM-DD format`);
+        }
+    }
+
+    const events = flags.events?.split(",").map((type) => type.trim().toLowerCase()) as Array<CalendarEventType> | undefined;
+    const output = flags.output ?? "sunmoon.ics";
+
+    const sunMoonCalendar = new SunMoonCalendar(logger, openCache(flags, logger));
+    const location = flags.location ?? `${lat}, ${lon}`;
+    let ics: string | null;
+    try {
+        ics = await sunMoonCalendar.getCalendar(location, lat, lon, getApiKey(flags), timeZone, flags.from, flags.to, { events });
+    } catch (e) {
+        if (e instanceof RangeError) {
+            throw new UsageError(e.message.replace(/^SunMoonCalendar: /, ""));
+        }
+        throw e;
+    }
+
+    if (ics === null) {
+        console.error("sun-moon-builder calendar: No sun and moon data available");
+        return EXIT_FAILED;
+    }
+
+    const parsed = path.parse(output);
+    const outputName = path.join(parsed.dir, `${parsed.name}.ics`);
+    new SimpleImageWriter(logger, parsed.dir === "" ? "." : parsed.dir).saveFile(`${parsed.name}.ics`, Buffer.from(ics));
+    console.log(outputName);
+    return EXIT_OK;
+}
+
+async function serve(flags: Flags, logger: Logger): Promise<number> {
+    const port = (flags.port !== undefined) ? parseInteger("--port", flags.port, 0) : 8080;
+    if (port > 65535) {
+        throw new UsageError(`--port "${flags.port}" must be a whole number from 0 to 65535`);
+    }
+
+    // The server logs each request at verbose, so show at least the start up and failures
+    const serverLogger = flags.verbose ? logger : new Logger("sun-moon-builder", "info");
+    const sunMoonCache = openCache(flags, serverLogger);
+    const server = new SunMoonServer(serverLogger, sunMoonCache, getApiKey(flags));
+    await server.listen(port, flags.host ?? "127.0.0.1");
+
+    // Runs until interrupted
+    await new Promise<void>((resolve) => {
+        process.once("SIGINT", resolve);
+        process.once("SIGTERM", resolve);
+    });
+
+    // Save the last writes first in case requests in progress keep the server from closing
+    sunMoonCache.flush();
+    await server.close();
+    sunMoonCache.close();
+    return EXIT_OK;
+}
+
+function cache(flags: Flags, args: Array<string>, logger: Logger): number {
+    if (args.length !== 1 || args[0] !== "clear") {
+        throw new UsageError("Expected: cache clear");
+    }
+
+    openCache(flags, logger).clear();
+    console.log(`Cleared ${path.resolve(flags.cache ?? CACHE_NAME)}`);
+    return EXIT_OK;
+}
+
+function openCache(flags: Flags, logger: Logger): Kache {
+    return new Kache(logger, CACHE_NAME, { path: flags.cache });
+}
+
+function getLocation(flags: Flags): { lat: string, lon: string, timeZone: string, date: string | undefined } {
+    if (flags.lat === undefined || flags.lon === undefined || flags.tz === undefined) {
+        throw new UsageError("--lat, --lon and --tz are required");
+    }
+
+    parseNumber("--lat", flags.lat, -90, 90);
+    parseNumber("--lon", flags.lon, -180, 180);
+
+    if (moment.tz.zone(flags.tz) === null) {
+        throw new UsageError(`--tz "${flags.tz}" is not a known time zone, e.g.: America/New_York`);
+    }
+
+    if (flags.date !== undefined && !moment(flags.date, "YYYY-MM-DD", true).isValid()) {
+        throw new UsageError(`--date "${flags.date}" is not a valid date in YYYY-MM-DD format`);
+    }
+
+    return { lat: flags.lat, lon: flags.lon, timeZone: flags.tz, date: flags.date };
+}
+
+function getImageOptions(flags: Flags): CreateOptions {
+    const imageOptions: CreateOptions = {};
+
+    if (flags.width !== undefined) {
+        imageOptions.width = parseInteger("--width", flags.width, 1);
+    }
+    if (flags.height !== undefined) {
+        imageOptions.height = parseInteger("--height", flags.height, 1);
+    }
+    if (flags.orientation !== undefined) {
+        imageOptions.orientation = flags.orientation as Orientation;
+    }
+    if (flags.theme !== undefined) {
+        imageOptions.theme = flags.theme;
+    }
+    if (flags.locale !== undefined) {
+        imageOptions.locale = flags.locale;
+    }
+    if (flags.hours !== undefined) {
+        if (flags.hours !== "12" && flags.hours !== "24") {
+            throw new UsageError(`--hours "${flags.hours}" must be 12 or 24`);
+        }
+        imageOptions.hour12 = flags.hours === "12";
+    }
+    if (flags.font !== undefined) {
+        imageOptions.fonts = {};
+        for (const font of flags.font) {
+            const [family, fileName] = font.split(/=(.*)/s);
+            if (family === "" || fileName === undefined || fileName === "") {
+                throw new UsageError(`--font "${font}" must be <family>=<file.ttf>`);
+            }
+            imageOptions.fonts[family] = fileName;
+        }
+    }
+    if (flags.quality !== undefined) {
+        imageOptions.jpegQuality = parseInteger("--quality", flags.quality, 1);
+    }
+    if (flags.at !== undefined) {
+        imageOptions.instant = /^\d+$/.test(flags.at) ? Number(flags.at) : flags.at;
+    }
+
+    if (flags.data !== undefined) {
+        imageOptions.dataFormats = flags.data.split(",").map((format) => format.trim().toLowerCase()) as Array<DataFormat>;
+        for (const format of imageOptions.dataFormats) {
+            if (format !== "json" && format !== "csv") {
+                throw new UsageError(`--data "${flags.data}" must be json, csv or json,csv`);
+            }
+        }
+    }
+
+    // The format can come from the flag or the extension of the output file
+    const extension = path.extname(flags.output ?? "").slice(1).toLowerCase();
+    const format = flags.format ?? ((extension === "jpeg") ? "jpg" : extension);
+    if (format !== "") {
+        imageOptions.format = format as ImageFormat;
+    }
+
+    // Check the sizes, format, quality, instant, theme and locale now so a bad flag is a usage error before any data is fetched
+    try {
+        resolveImageOptions(imageOptions);
+    } catch (e) {
+        if (e instanceof RangeError || e instanceof ThemeError || e instanceof LocaleError) {
+            throw new UsageError(e.message.replace(/^Dial: /, ""));
+        }
+        throw e;
+    }
+    return imageOptions;
+}
+
+function getApiKey(flags: Flags): string {
+    return flags["api-key"] ?? process.env.IPGEOLOACATION_API_KEY ?? "";
+}
+
+function readBatchConfig(fileName: string): BatchConfig {
+    let config: unknown;
+    try {
+        config = JSON.parse(fs.readFileSync(fileName).toString());
+    } catch (e) {
+        throw new UsageError(`Unable to read config file "${fileName}": ${e instanceof Error ? e.message : e}`);
+    }
+
+    const batchConfig: BatchConfig = Array.isArray(config) ? { jobs: config } : config as BatchConfig;
+    if (batchConfig === null || typeof batchConfig !== "object" || !Array.isArray(batchConfig.jobs)) {
+        throw new UsageError(`Config file "${fileName}" must contain an array of jobs or an object with a "jobs" array`);
+    }
+
+    batchConfig.jobs.forEach((job, index) => {
+        for (const key of ["location", "fileName", "lat", "lon", "timeZone"] as Array<keyof BatchJob>) {
+            if (typeof job?.[key] !== "string") {
+                throw new UsageError(`Config file "${fileName}": jobs[${index}].${key} is ${JSON.stringify(job?.[key])}, expected a string`);
+            }
+        }
+    });
+
+    return batchConfig;
+}
+
+function parseNumber(flag: string, value: string, min: number, max: number): number {
+    const parsed = Number(value);
+    if (value.trim() === "" || !Number.isFinite(parsed) || parsed < min || parsed > max) {
+        throw new UsageError(`${flag} "${value}" must be a number from ${min} to ${max}`);
+    }
+    return parsed;
+}
+
+function parseInteger(flag: string, value: string, min: number): number {
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < min) {
+        throw new UsageError(`${flag} "${value}" must be a whole number of at least ${min}`);
+    }
+    return parsed;
+}
+
+/**
+ * parseArgs treats "-71.6" as an option, so join negative numbers to the option before them ("--lon=-71.6")
+ * @param argv Command line arguments
+ * @returns Arguments with the negative numbers joined
+ */
+function joinNegativeNumbers(argv: Array<string>): Array<string> {
+    const args: Array<string> = [];
+    for (const arg of argv) {
+        const previous = args[args.length - 1];
+        if (/^-\d/.test(arg) && previous !== undefined && /^--[a-z-]+$/.test(previous) && !previous.includes("=")) {
+            args[args.length - 1] = `${previous}=${arg}`;
+        } else {
+            args.push(arg);
+        }
+    }
+    return args;
+}
+
+function expectNoArgs(command: string, args: Array<string>): void {
+    if (args.length > 0) {
+        throw new UsageError(`Unexpected argument for ${command}: ${args.join(" ")}`);
+    }
+}
+
+function usageError(message: string): number {
+    console.error(`sun-moon-builder: ${message}`);
+    console.error("Run \"sun-moon-builder --help\" for usage");
+    return EXIT_USAGE;
+}
+
+main(process.argv.slice(2)).then((exitCode) => {
+    process.exitCode = exitCode;
+});
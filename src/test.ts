@@ -1,9 +1,29 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
+import http = require("http");
+import fs = require("fs");
+import childProcess = require("child_process");
+import os from "os";
+import path from "path";
 import dotenv from "dotenv";
 import { Logger } from "./Logger";
 import { SimpleImageWriter } from "./SimpleImageWriter";
-import { Kache } from "./Kache";
-import { SunMoonBuilder } from "./SunMoonBuilder";
+import { Kache, MemoryKacheBackend } from "./Kache";
+import { SunMoonBuilder, BatchJob } from "./SunMoonBuilder";
+import { AstronomyProviderChain, AstronomyProviderInterface } from "./AstronomyProvider";
+import { IpGeolocationProvider } from "./IpGeolocationProvider";
+import { ApiAuthError, ApiQuotaError } from "./ApiClient";
+import { normalizeSunMoonJson, getEventTime, EventTimeField, SunMoonSchemaError, NO_EVENT } from "./SunMoonSchema";
+import { SunMoonData, SunMoonJson } from "./SunMoonData";
+import { DataFormat, toSunMoonExport } from "./SunMoonExport";
+import { SunMoonCalendar } from "./SunMoonCalendar";
+import { SunMoonServer } from "./SunMoonServer";
+import { LocalAstronomyProvider } from "./LocalAstronomyProvider";
+import { getDialLayout, getDialModel, getAngle, resolveInstant, resolveImageOptions, formatTime, ImageOptions } from "./Dial";
+import { getTheme, getThemeNames, ThemeError } from "./Theme";
+import { getLocale, getPhaseName, LocaleError } from "./Locale";
+import { FontError } from "./Raster";
+import { SunMoonImage } from "./SunMoonImage";
+import moment from "moment-timezone";
 
 async function run() {
     dotenv.config();  // Load var from .env into the environment
@@ -13,12 +33,12 @@ async function run() {
     const simpleImageWriter: SimpleImageWriter = new SimpleImageWriter(logger, "images");
     const sunmoonBuilder: SunMoonBuilder = new SunMoonBuilder(logger, cache, simpleImageWriter);
 
-    const IPGEOLOACATION_API_KEY: string | undefined = process.env.IPGEOLOACATION_API_KEY;
+    let IPGEOLOACATION_API_KEY: string | undefined = process.env.IPGEOLOACATION_API_KEY;
     const timeZone = "America/New_York";
 
     if (IPGEOLOACATION_API_KEY === undefined) {
-        logger.error("No url specified in env IPGEOLOACATION_API_KEY");
-        process.exit(1);
+        logger.warn("No key specified in env IPGEOLOACATION_API_KEY, calculating data locally");
+        IPGEOLOACATION_API_KEY = "";
     }
    
     let success = true;
@@ -36,21 +56,639 @@ async function run() {
     // success = success && await sunmoonBuilder.CreateImages("Onset, MA", "OnsetSunMoon11.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, "2021-11-24");
     // success = success && await sunmoonBuilder.CreateImages("Onset, MA", "OnsetSunMoon12.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, "2021-12-25");
 
-    // Sunrise before 6AM, sunset after 6PM
-    success = success && await sunmoonBuilder.CreateImages("Onset, MA", "OnsetSunMoon-June.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-06-21");
+    const onset  = {location: "Onset, MA",      lat: "42.4",  lon: "-71.6", timeZone: timeZone};
+    const tromso = {location: "Tromso, Norway", lat: "69.65", lon: "18.96", timeZone: "Europe/Oslo"};
 
-    // Sunrise after 6AM and sunset before 6PM, Moon sets in the morning, rises in the afteroon
-    success = success && await sunmoonBuilder.CreateImages("Onset, MA", "OnsetSunMoon-dec.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-12-21");
+    // Jobs for the same location and date share one data fetch
+    const jobs: Array<BatchJob> = [
+        {...onset,  fileName: "OnsetSunMoon-June.jpg",          date: "2021-06-21"},  // Sunrise before 6AM, sunset after 6PM
+        {...onset,  fileName: "OnsetSunMoon-dec.jpg",           date: "2021-12-21"},  // Sunrise after 6AM and sunset before 6PM, Moon sets in the morning, rises in the afteroon
+        {...onset,  fileName: "OnsetSunMoon-sep.jpg",           date: "2021-09-01"},  // Sunset before 6PM, twilight after 6PM
+        {...onset,  fileName: "OnsetSunMoon-mar.jpg",           date: "2021-03-08"},  // Sunrise after 6AM, twilight before 6AM, Moon rises and falls in the same day
+        {...tromso, fileName: "TromsoSunMoon-June.jpg",         date: "2021-06-21"},  // Polar day, the sun does not set
+        {...tromso, fileName: "TromsoSunMoon-dec.jpg",          date: "2021-12-21"},  // Polar night, the sun does not rise but there is twilight around noon
 
-    // Sunset before 6PM, twilight after 6PM
-    success = success && await sunmoonBuilder.CreateImages("Onset, MA", "OnsetSunMoon-sep.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-09-01");
+        // Dark and astronomy-safe themes
+        {...onset,  fileName: "OnsetSunMoon-dark.jpg",          date: "2021-09-01", options: {theme: "dark"}},
+        {...onset,  fileName: "OnsetSunMoon-night-red.jpg",     date: "2021-09-01", options: {theme: "night-red"}},
 
-    // Sunrise after 6AM, twilight before 6AM, Moon rises and falls in the same day
-    success = success && await sunmoonBuilder.CreateImages("Onset, MA", "OnsetSunMoon-mar.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-03-08");
+        // e-paper panel, portrait signage and 4K
+        {...onset,  fileName: "OnsetSunMoon-800x480.jpg",       date: "2021-09-01", options: {width: 800, height: 480}},
+        {...onset,  fileName: "OnsetSunMoon-portrait.jpg",      date: "2021-09-01", options: {orientation: "portrait"}},
+        {...tromso, fileName: "TromsoSunMoon-portrait.jpg",     date: "2021-12-21", options: {width: 600, height: 1024}},
+        {...onset,  fileName: "OnsetSunMoon-4k.jpg",            date: "2021-09-01", options: {width: 3840, height: 2160}},
+
+        // Lossless, raw and vector output
+        {...onset,  fileName: "OnsetSunMoon-800x480.png",       date: "2021-09-01", options: {width: 800, height: 480, format: "png"}},
+        {...onset,  fileName: "OnsetSunMoon-800x480.rgba",      date: "2021-09-01", options: {width: 800, height: 480, format: "rgba"}},
+        {...onset,  fileName: "OnsetSunMoon-sep.svg",           date: "2021-09-01", options: {format: "svg"}},
+        {...tromso, fileName: "TromsoSunMoon-portrait.svg",     date: "2021-12-21", options: {width: 600, height: 1024, format: "svg"}},
+        {...onset,  fileName: "OnsetSunMoon-q95.jpg",           date: "2021-09-01", options: {jpegQuality: 95}},
+
+        // Markers at a fixed time instead of now, the same image on every run
+        {...onset,  fileName: "OnsetSunMoon-sep-0800.jpg",      date: "2021-09-01", options: {instant: "2021-09-01T08:00:00-04:00"}},
+        {...tromso, fileName: "TromsoSunMoon-June-midnight.jpg",                    options: {instant: "2021-06-21T00:00:00+02:00"}},
+
+        // German, French and Spanish, and a custom locale with 24 hour time and the day before the month
+        {...onset,  fileName: "OnsetSunMoon-sep-de.jpg",        date: "2021-09-01", options: {locale: "de", instant: "2021-09-01T20:00:00-04:00"}},
+        {...onset,  fileName: "OnsetSunMoon-dec-fr.jpg",        date: "2021-12-21", options: {locale: "fr", theme: "dark"}},
+        {...tromso, fileName: "TromsoSunMoon-dec-es.jpg",       date: "2021-12-21", options: {locale: "es", hour12: true}},
+        {...onset,  fileName: "OnsetSunMoon-sep-en-gb.svg",     date: "2021-09-01", options: {format: "svg", locale: {...getLocale("en"), name: "en-GB", dateFormat: "dddd D MMMM YYYY", hour12: false}}},
+
+        // A theme font that is not in the package, passed as a buffer
+        {...onset,  fileName: "OnsetSunMoon-sep-alata.jpg",     date: "2021-09-01", options: {theme: {...getTheme("light"), fonts: {...getTheme("light").fonts, titleFontFamily: "Alata"}},
+            fonts: {"Alata": fs.readFileSync(path.join("fonts", "alata-regular.ttf"))}}},
+
+        // Data documents next to the image
+        {...onset,  fileName: "OnsetSunMoon-data.jpg",          date: "2021-09-01", options: {dataFormats: ["json", "csv"]}},
+        {...tromso, fileName: "TromsoSunMoon-June-data.jpg",    date: "2021-06-21", options: {width: 800, height: 480, dataFormats: ["json"]}}
+    ];
+
+    const results = await sunmoonBuilder.CreateImagesBatch(jobs, IPGEOLOACATION_API_KEY);
+    for (const result of results) {
+        logger.info(`test.ts: ${result.success ? "OK    " : "FAILED"} ${result.fileName ?? result.job.fileName} ${result.bytesWritten} bytes ${result.durationMs}ms ${result.error ?? ""}`);
+        success = success && result.success;
+    }
+
+    // Month grid and a year of daylight bands with the DST changes and the midnight sun, and a month in German
+    success = success && await sunmoonBuilder.CreatePoster("Onset, MA", "OnsetSunMoon-2021-09-poster.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-09");
+    success = success && await sunmoonBuilder.CreatePoster("Onset, MA", "OnsetSunMoon-2021-09-poster-de.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-09", {locale: "de"});
+    success = success && await sunmoonBuilder.CreatePoster("Tromso, Norway", "TromsoSunMoon-2021-poster.png", "69.65", "18.96", IPGEOLOACATION_API_KEY, "Europe/Oslo", "2021", {format: "png", theme: "dark"});
+
+    // A day of the sun and moon moving with a clock: an APNG across the end of DST (25 frames) and numbered frames
+    success = success && await sunmoonBuilder.CreateTimeLapse("Onset, MA", "OnsetSunMoon-2021-11-07-day.png", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-11-07",
+        {width: 800, height: 480, intervalMinutes: 60}) === 1;
+    success = success && await sunmoonBuilder.CreateTimeLapse("Tromso, Norway", "TromsoSunMoon-June-day.jpg", "69.65", "18.96", IPGEOLOACATION_API_KEY, "Europe/Oslo", "2021-06-21",
+        {width: 800, height: 480, intervalMinutes: 180, animation: "frames"}) === 8;
+
+    // Pull the next week into the cache ahead of time
+    success = success && await sunmoonBuilder.PrefetchSunMoonData("42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, 7) === 7;
+
+    // A provider that is down: the image is still made, from a local calculation, and marked stale.
+    // The cache is in memory so the live data cached above is not used.
+    const downProvider: AstronomyProviderInterface = {
+        name: "down",
+        getSunMoonJson: async () => { throw new Error("Service unavailable"); }
+    };
+    const staleBuilder = new SunMoonBuilder(logger, new Kache(logger, "stale", {backend: new MemoryKacheBackend()}), simpleImageWriter, [downProvider]);
+    success = success && await staleBuilder.CreateImages("Onset, MA", "OnsetSunMoon-stale.jpg", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-09-01");
+
+    // A bad data format fails before the image is written
+    const written: Array<string> = [];
+    const badFormatBuilder = new SunMoonBuilder(logger, new Kache(logger, "formats", {backend: new MemoryKacheBackend()}), {saveFile: (fileName) => written.push(fileName)});
+    let fetches = 0;
+    const countingProvider: AstronomyProviderInterface = {
+        name: "counting",
+        getSunMoonJson: async (lat, lon, zone, dateStr) => {
+            fetches++;
+            return new LocalAstronomyProvider(logger).getSunMoonJson(lat, lon, zone, dateStr);
+        }
+    };
+    const [badJob] = await new SunMoonBuilder(logger, new Kache(logger, "bad-job", {backend: new MemoryKacheBackend()}), {saveFile: (fileName) => written.push(fileName)}, [countingProvider])
+        .CreateImagesBatch([{...onset, fileName: "OnsetSunMoon-nope.jpg", date: "2021-09-01", options: {theme: "nope"}}], "");
+    success = success && !badJob.success && /theme/.test(badJob.error ?? "") && fetches === 0 && written.length === 0;
+    success = success && !await badFormatBuilder.CreateImages("Onset, MA", "OnsetSunMoon-xml.jpg", "42.4", "-71.6", "", timeZone, "2021-09-01", {dataFormats: ["xml" as DataFormat]}) && written.length === 0;
+
+    // Only the built-in names are themes, not keys inherited from Object.prototype
+    success = success && testThemes(logger);
+
+    // Provider data is normalized and bad data is rejected with every problem listed
+    success = success && testSchema(logger);
+
+    // Times, dates and cache expiry follow the requested time zone, not the host's
+    success = success && await testTimeModel(logger);
+
+    // Translated text, 12 and 24 hour times and the date in each locale
+    success = success && await testLocales(logger);
+
+    // Fonts come from the package, not the current directory, and a missing font is a FontError
+    success = success && await testFonts(logger);
+
+    // Retries, Retry-After, auth errors and the request budget against a local mock of the API
+    success = success && await testRetries(logger);
+
+    // Loading, saving, eviction and expiry of the cache
+    success = success && testKache(logger);
+
+    // Routing, bad parameters and the caching headers of the HTTP server
+    success = success && await testServer(logger);
+
+    // Command line parsing and exit codes, run as the installed bin would be
+    success = success && testCli(logger);
+
+    // Dusk after midnight is on the next day
+    success = success && await testCalendar(logger);
+
+    // A month of events across the end of DST
+    success = success && await sunmoonBuilder.CreateCalendar("Onset, MA", "OnsetSunMoon-2021-11.ics", "42.4", "-71.6", IPGEOLOACATION_API_KEY, timeZone, "2021-10-20", "2021-11-20");
 
     logger.info(`test.ts: Done: ${success ? "successfully" : "failed"}`); 
 
     return success ? 0 : 1;
 }
 
+/**
+ * Makes a function that logs each check of a group as OK or FAILED
+ * @param logger Logger for the results
+ * @param group Name of the group (e.g.: "schema")
+ * @returns check(name, ok) that logs the result and returns ok
+ */
+function checker(logger: Logger, group: string): (name: string, ok: boolean) => boolean {
+    return (name: string, ok: boolean): boolean => {
+        logger.info(`test.ts: ${ok ? "OK    " : "FAILED"} ${group}: ${name}`);
+        return ok;
+    };
+}
+
+/**
+ * Makes the data most groups use: an in-memory cache and data calculated locally
+ * @param logger Logger for the cache and the data
+ * @param name Name of the cache for the log (e.g.: "locales")
+ * @returns The cache, to close at the end of the group, and the SunMoonData that uses it
+ */
+function localData(logger: Logger, name: string): {cache: Kache, sunMoonData: SunMoonData} {
+    const cache = new Kache(logger, name, {backend: new MemoryKacheBackend()});
+    return {cache, sunMoonData: new SunMoonData(logger, cache, [new LocalAstronomyProvider(logger)])};
+}
+
+function testThemes(logger: Logger): boolean {
+    const check = checker(logger, "themes");
+
+    let rejected = 0;
+    for (const name of ["constructor", "toString", "__proto__"]) {
+        try {
+            getTheme(name);
+        } catch (e) {
+            rejected += (e instanceof ThemeError) ? 1 : 0;
+        }
+    }
+    let ok = check("Object.prototype keys are not themes", rejected === 3);
+    ok = check("Built-in themes are copies", getTheme("dark") !== getTheme("dark") && getTheme("dark").colors.backgroundColor === getTheme("dark").colors.backgroundColor) && ok;
+    ok = check("Built-in theme names", getThemeNames().join() === "light,dark,night-red" && getThemeNames().every(name => getTheme(name).name === name)) && ok;
+    return ok;
+}
+
+function testSchema(logger: Logger): boolean {
+    const check = checker(logger, "schema");
+
+    const good = normalizeSunMoonJson({location: {latitude: 42.4}, date: "2021-09-01", current_time: "8:19:20.199", sunrise: "6:11", sunset: "19:19",
+        solor_noon: "12:45", moonrise: "--:--", moonset: "16:19", sun_altitude: "20.8"}, "sample");
+    let ok = check("Times, missing events and numbers are normalized",
+        good.current_time === "08:19:20.199" && good.sunrise === "06:11" && good.solar_noon === "12:45" && good.moonrise === NO_EVENT && good.sun_altitude === 20.8);
+
+    let problems: Array<string> = [];
+    try {
+        normalizeSunMoonJson({date: "2021-09-01", current_time: "12:00", sunrise: "25:99", sunset: "19:19", moonrise: "00:19", moonset: "16:19", sun_azimuth: 400}, "sample");
+    } catch (e) {
+        problems = (e instanceof SunMoonSchemaError) ? e.problems : [];
+    }
+    ok = check(`Malformed data is rejected: ${problems.join("; ")}`, problems.length === 3) && ok;
+    return ok;
+}
+
+function testKache(logger: Logger): boolean {
+    const check = checker(logger, "kache");
+
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sun-moon-kache-"));
+    const fileName = path.join(dir, "cache.json");
+    const future = Date.now() + 60 * 60 * 1000;
+
+    let ok = true;
+    try {
+        // A file edited by hand or written by something else
+        fs.writeFileSync(fileName, JSON.stringify({"null": null, "number": 5, "no-expiration": {item: 1}, "bad-expiration": {expiration: "soon", item: 1},
+            "good": {expiration: future, comment: "", item: "kept"}}));
+        let loaded: Kache | null = null;
+        try {
+            loaded = new Kache(logger, "bad-entries", {path: fileName, sweepIntervalMs: 0});
+        } catch (e) {
+            logger.error(`test.ts: ${e}`);
+        }
+        ok = check("Entries that are not cache items are dropped on load", loaded !== null && loaded.keys().join() === "good" && loaded.get("good") === "kept") && ok;
+        loaded?.close();
+
+        fs.writeFileSync(fileName, "[1, 2]");
+        ok = check("A file that is not an object of items starts empty", new Kache(logger, "array", {path: fileName, sweepIntervalMs: 0}).keys().length === 0) && ok;
+
+        // Written through a temp file that is renamed over the cache file
+        const written = new Kache(logger, "write", {path: fileName, sweepIntervalMs: 0});
+        written.set("a", {value: 1}, future);
+        written.close();
+        const reloaded = new Kache(logger, "reload", {path: fileName, sweepIntervalMs: 0});
+        ok = check("Items are saved and loaded again without leaving temp files", fs.readdirSync(dir).join() === "cache.json" &&
+            (reloaded.get("a") as {value: number} | null)?.value === 1) && ok;
+        reloaded.close();
+
+        const pending = new Kache(logger, "pending", {path: fileName, sweepIntervalMs: 0, writeDelayMs: 60 * 60 * 1000});
+        pending.set("b", 2, future);
+        const beforeFlush = JSON.parse(fs.readFileSync(fileName, "utf8"));
+        pending.flush();
+        const afterFlush = JSON.parse(fs.readFileSync(fileName, "utf8"));
+        ok = check("Sets are saved after the write delay or on flush()", !("b" in beforeFlush) && afterFlush.b?.item === 2) && ok;
+        pending.close();
+
+        const lru = new Kache(logger, "lru", {backend: new MemoryKacheBackend(), maxEntries: 2, sweepIntervalMs: 0});
+        lru.set("a", 1, future);
+        lru.set("b", 2, future);
+        lru.get("a");
+        lru.set("c", 3, future);
+        ok = check("The least recently used item is evicted past maxEntries", lru.keys().join() === "a,c" && lru.get("b") === null) && ok;
+
+        const expiring = new Kache(logger, "expiring", {backend: new MemoryKacheBackend(), sweepIntervalMs: 0});
+        expiring.set("old", 1, Date.now() - 1);
+        expiring.set("new", 2, future);
+        ok = check("Expired items are not kept and are swept", !expiring.has("old") && expiring.get("old") === null && expiring.keys().join() === "new" &&
+            expiring.sweep() === 1 && expiring.sweep() === 0) && ok;
+
+        const items = new Kache(logger, "items", {path: fileName, sweepIntervalMs: 0});
+        items.set("c", 3, future);
+        const deleted = items.delete("a") && !items.delete("a");
+        ok = check("delete, has and keys", deleted && !items.has("a") && items.has("b") && items.keys().join() === "b,c") && ok;
+        items.clear();
+        ok = check("clear removes the items and the file", items.keys().length === 0 && !items.has("b") && !fs.existsSync(fileName)) && ok;
+        items.close();
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+    return ok;
+}
+
+async function testServer(logger: Logger): Promise<boolean> {
+    const check = checker(logger, "server");
+
+    const cache = new Kache(logger, "server", {backend: new MemoryKacheBackend()});
+    const server = new SunMoonServer(logger, cache, "", [new LocalAstronomyProvider(logger)]);
+    const port = await server.listen(0);
+    const get = (path: string, method = "GET", headers: http.OutgoingHttpHeaders = {}): Promise<{status: number, headers: http.IncomingHttpHeaders, body: string}> => new Promise((resolve, reject) => {
+        http.request(`http://127.0.0.1:${port}${path}`, {method, headers}, (res) => {
+            const chunks: Array<Buffer> = [];
+            res.on("data", (chunk: Buffer) => chunks.push(chunk));
+            res.on("end", () => resolve({status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString()}));
+        }).on("error", reject).end();
+    });
+    const maxAge = (headers: http.IncomingHttpHeaders): number => Number(/max-age=(\d+)/.exec(headers["cache-control"] ?? "")?.[1] ?? -1);
+
+    let ok = true;
+    try {
+        const health = await get("/health");
+        ok = check("/health is ok and not cached", health.status === 200 && JSON.parse(health.body).status === "ok" && health.headers["cache-control"] === "no-store") && ok;
+
+        const notFound = await get("/sunmoon.gif?lat=42.4&lon=-71.6&tz=UTC");
+        const notAllowed = await get("/health", "POST");
+        ok = check("Unknown paths are a 404 and other methods a 405", notFound.status === 404 && notAllowed.status === 405 && notAllowed.headers.allow === "GET, HEAD") && ok;
+
+        const badQueries = await Promise.all(["lon=-71.6&tz=UTC", "lat=91&lon=-71.6&tz=UTC", "lat=42.4&lon=x&tz=UTC", "lat=42.4&lon=-71.6&tz=Mars/Base",
+            "lat=42.4&lon=-71.6&tz=UTC&date=2021-13-01", "lat=42.4&lon=-71.6&tz=UTC&at=yesterday"].map((badQuery) => get(`/sunmoon.json?${badQuery}`)));
+        ok = check("Missing or bad location, date and at are a 400", badQueries.every((response) => response.status === 400)) && ok;
+
+        const query = "lat=42.4&lon=-71.6&tz=America/New_York";
+        const image = await get(`/sunmoon.png?${query}&date=2021-09-01&at=2021-09-01T08:00:00-04:00&width=800&height=480`);
+        ok = check("Images have the type, size and validators", image.status === 200 && image.headers["content-type"] === "image/png" &&
+            image.headers["x-image-width"] === "800" && image.headers["x-image-height"] === "480" && image.headers.etag !== undefined && image.headers["last-modified"] !== undefined) && ok;
+
+        const notModified = await get(`/sunmoon.png?${query}&date=2021-09-01&at=2021-09-01T08:00:00-04:00&width=800&height=480`, "GET", {"If-None-Match": image.headers.etag});
+        const head = await get(`/sunmoon.json?${query}&date=2021-09-01`, "HEAD");
+        ok = check("A matching ETag is a 304 and HEAD has no body", notModified.status === 304 && notModified.body === "" && head.status === 200 && head.body === "" &&
+            head.headers["content-type"] === "application/json") && ok;
+
+        const tooBig = await get(`/sunmoon.png?${query}&width=7680&height=7680`);
+        ok = check("Images over 8K pixels are a 400", tooBig.status === 400 && /too large/.test(JSON.parse(tooBig.body).error)) && ok;
+        const now = await get(`/sunmoon.json?${query}`);
+        ok = check("Without at the response is only fresh for a minute", now.status === 200 && maxAge(now.headers) > 0 && maxAge(now.headers) <= 60) && ok;
+
+        const at = await get(`/sunmoon.json?${query}&date=2021-09-01&at=2021-09-01T08:00:00-04:00`);
+        ok = check("With at the response lasts as long as the data", at.status === 200 && maxAge(at.headers) > 60) && ok;
+
+        // Bad options are found before the data is fetched, so nothing new is cached
+        const cached = cache.keys().length;
+        const badOptions = await Promise.all(["theme=nope", "locale=xx", "width=50", "quality=0", "hours=13"].map((option) => get(`/sunmoon.png?lat=10&lon=10&tz=UTC&${option}`)));
+        ok = check("Bad image options are a 400 without fetching the data", badOptions.every((response) => response.status === 400 && JSON.parse(response.body).error !== undefined) &&
+            cache.keys().length === cached) && ok;
+    } finally {
+        await server.close();
+        cache.close();
+    }
+    return ok;
+}
+
+function testCli(logger: Logger): boolean {
+    const check = checker(logger, "cli");
+
+    // In an empty directory so a command that should fail early can be seen not to have written the cache
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sun-moon-cli-"));
+    const cli = (...args: Array<string>): {status: number | null, stdout: string} => {
+        const result = childProcess.spawnSync(process.execPath, [path.join(__dirname, "cli.js"), ...args], {cwd: dir, timeout: 60000, encoding: "utf8",
+            env: {...process.env, IPGEOLOACATION_API_KEY: ""}});
+        return {status: result.status, stdout: result.stdout};
+    };
+    const onset = ["--lat", "42.4", "--lon", "-71.6", "--tz", "America/New_York"];
+
+    let ok = true;
+    try {
+        ok = check("No command, an unknown command or an unknown flag is a usage error", cli().status === 2 && cli("nope").status === 2 &&
+            cli("render", ...onset, "--bogus").status === 2 && cli("data", "--lat", "42.4", "--lon", "-71.6").status === 2) && ok;
+        ok = check("--help is not an error", cli("--help").status === 0) && ok;
+
+        const badOptions = [["--theme", "nope"], ["--width", "50"], ["--locale", "xx"], ["--format", "gif"], ["--quality", "101"], ["--at", "yesterday"]];
+        ok = check("Bad image options are a usage error before the data is fetched", badOptions.every((option) => cli("render", ...onset, ...option).status === 2) &&
+            !fs.existsSync(path.join(dir, "sunmoon-cache.json"))) && ok;
+
+        // parseArgs would read "-71.6" and "-33.87" as flags without joinNegativeNumbers
+        const onsetData = cli("data", ...onset, "--date", "2021-09-01", "--json");
+        const sydneyData = cli("data", "--lat=-33.87", "--lon", "151.21", "--tz", "Australia/Sydney", "--date", "2021-10-03", "--json");
+        ok = check("Negative numbers are option values", onsetData.status === 0 && JSON.parse(onsetData.stdout).date === "2021-09-01" &&
+            sydneyData.status === 0 && JSON.parse(sydneyData.stdout).timeZone === "Australia/Sydney") && ok;
+
+        const rendered = cli("render", ...onset, "--width", "400", "--height", "240", "--at", "2021-09-01T08:00:00-04:00", "-o", "onset.png", "--data", "json");
+        ok = check("render writes the image and data and prints their names", rendered.status === 0 && rendered.stdout.endsWith("onset.png\nonset.json\n") &&
+            fs.existsSync(path.join(dir, "onset.png")) && fs.existsSync(path.join(dir, "onset.json"))) && ok;
+    } finally {
+        fs.rmSync(dir, {recursive: true, force: true});
+    }
+    return ok;
+}
+
+async function testCalendar(logger: Logger): Promise<boolean> {
+    const check = checker(logger, "calendar");
+
+    // Vigo, Spain in June: astronomical dusk is at 00:28 the next morning and dawn is at 04:44
+    const { cache, sunMoonData } = localData(logger, "calendar");
+    const calendar = new SunMoonCalendar(logger, cache, [new LocalAstronomyProvider(logger)]);
+    const ics = await calendar.getCalendar("Vigo, Spain", "42.24", "-8.72", "", "Europe/Madrid", "2024-06-20", "2024-06-21", {events: ["twilight"]});
+    const vigo = await sunMoonData.getSunMoonData("42.24", "-8.72", "", "Europe/Madrid", "2024-06-20");
+    cache.close();
+    if (ics === null || vigo === null) {
+        return check("Vigo calendar and data", false);
+    }
+
+    const starts = [...ics.matchAll(/DTSTART;TZID=Europe\/Madrid:(\S+)\r\nSUMMARY:(.*)\r\n/g)].map(([, start, summary]) => `${start} ${summary}`);
+    let ok = check("Dusk after midnight is on the next day", starts.includes("20240621T002800 Astronomical dusk (last light)") &&
+        !starts.some((start) => start.startsWith("20240620T00")) && starts[0].startsWith("20240620T0444"));
+
+    const exported = toSunMoonExport("Vigo, Spain", "42.24", "-8.72", "Europe/Madrid", vigo);
+    ok = check("The export has the same dusk after midnight", exported.sun.astronomicalDusk === "2024-06-21T00:28:00+02:00" &&
+        exported.sun.lastLight === exported.sun.astronomicalDusk && exported.sun.sunrise === "2024-06-20T06:58:00+02:00") && ok;
+
+    const sunMoonJson = {date: "2024-06-20", solar_noon: "14:36", astronomicalDusk: "00:28", astronomicalDawn: "23:50", sunrise: "06:58"} as SunMoonJson;
+    const time = (field: EventTimeField): string | undefined => getEventTime(sunMoonJson, field, "Europe/Madrid")?.format();
+    return check("Event times are rolled to the night they belong to", time("astronomicalDusk") === "2024-06-21T00:28:00+02:00" &&
+        time("astronomicalDawn") === "2024-06-19T23:50:00+02:00" && time("sunrise") === "2024-06-20T06:58:00+02:00" && time("moonrise") === undefined) && ok;
+}
+
+async function testTimeModel(logger: Logger): Promise<boolean> {
+    const check = checker(logger, "time model");
+
+    const { cache, sunMoonData } = localData(logger, "time-model");
+    const theme = getTheme("light");
+    const layout = getDialLayout(theme, 1920, 1080, false);
+
+    // The same data drawn on hosts in different zones
+    const hostTimeZone = process.env.TZ;
+    const models: Array<string> = [];
+    let sydney: SunMoonJson | null = null;
+    for (const hostZone of ["UTC", "America/Los_Angeles", "Asia/Kolkata"]) {
+        process.env.TZ = hostZone;
+        sydney = await sunMoonData.getSunMoonData("-33.87", "151.21", "", "Australia/Sydney", "2021-10-03");
+        if (sydney === null) {
+            return check("Sydney data", false);
+        }
+        const model = getDialModel(sydney, "Sydney", "-33.87", theme, layout, logger);
+        models.push(JSON.stringify({...model, currentTimeAngle: 0}));
+    }
+    if (hostTimeZone === undefined) {
+        delete process.env.TZ;
+    } else {
+        process.env.TZ = hostTimeZone;
+    }
+    if (sydney === null) {
+        return check("Sydney data", false);
+    }
+
+    let ok = check("The dial is the same on every host", models.every((model) => model === models[0]));
+    ok = check("Date text is in the data's zone", getDialModel(sydney, "Sydney", "-33.87", theme, layout, logger).dateText === "Sunday, October 3, 2021 AEDT") && ok;
+
+    const nowInSydney = moment().tz("Australia/Sydney");
+    const currentTime = moment.tz(`${nowInSydney.format("YYYY-MM-DD")} ${sydney.current_time}`, "YYYY-MM-DD HH:mm:ss.SSS", "Australia/Sydney");
+    ok = check("current_time is now in the requested zone", sydney.timeZone === "Australia/Sydney" && Math.abs(currentTime.diff(nowInSydney)) < 60 * 1000) && ok;
+
+    // The first Sunday in November 2021 has 25 hours in Onset
+    const fallBack = await sunMoonData.getSunMoonData("42.4", "-71.6", "", "America/New_York", "2021-11-07");
+    ok = check("Events on the DST day are standard time", fallBack !== null && fallBack.solar_noon.startsWith("11:") && getAngle(fallBack.sunrise, logger) > 90 &&
+        getDialModel(fallBack, "Onset, MA", "42.4", theme, layout, logger).dateText === "Sunday, November 7, 2021 EST") && ok;
+
+    const endOfToday = moment().tz("America/New_York").endOf("day").valueOf();
+    ok = check("Past dates are cached past today", sunMoonData.getExpiration("America/New_York", "2021-11-07") > endOfToday) && ok;
+
+    const springForward = moment.tz("2030-03-10", "YYYY-MM-DD", "America/New_York");
+    ok = check("A future DST day expires at its local end", sunMoonData.getExpiration("America/New_York", "2030-03-10") - springForward.valueOf() === 23 * 60 * 60 * 1000 - 1) && ok;
+
+    // Markers for a given instant come from the cached data without another fetch
+    const morning = await sunMoonData.getSunMoonData("42.4", "-71.6", "", "America/New_York", "", new Date("2021-09-01T12:00:00Z"));
+    const evening = await sunMoonData.getSunMoonData("42.4", "-71.6", "", "America/New_York", "", new Date("2021-09-01T22:00:00Z"));
+    ok = check("An instant sets the date, current_time and positions", morning !== null && evening !== null && morning.date === "2021-09-01" &&
+        morning.current_time === "08:00:00.000" && evening.current_time === "18:00:00.000" && (morning.sun_azimuth ?? 0) < 180 && (evening.sun_azimuth ?? 0) > 180) && ok;
+
+    const moonIsUp = (moonrise: string, moonset: string, time: string): boolean =>
+        morning !== null && getDialModel({...morning, moonrise, moonset, current_time: time}, "Onset, MA", "42.4", theme, layout, logger).moonIsUp;
+    ok = check("The moon marker is up only on the moon up arc", !moonIsUp("10:00", "20:00", "08:00:00.000") && moonIsUp("10:00", "20:00", "12:00:00.000") &&
+        moonIsUp("20:00", "06:00", "03:00:00.000") && !moonIsUp("20:00", "06:00", "12:00:00.000") && moonIsUp("20:00", "06:00", "22:00:00.000")) && ok;
+
+    const lateEvening = await sunMoonData.getSunMoonData("42.4", "-71.6", "", "America/New_York", "", new Date("2021-09-01T02:00:00Z"));
+    ok = check("The date is the instant's date in the zone", lateEvening !== null && lateEvening.date === "2021-08-31") && ok;
+
+    let rejected = false;
+    try {
+        resolveInstant("2021-09-01T08:00:00");
+    } catch (e) {
+        rejected = e instanceof RangeError;
+    }
+    ok = check("An instant without an offset is rejected", rejected && resolveInstant("2021-09-01T08:00:00-04:00").valueOf() === Date.UTC(2021, 8, 1, 12)) && ok;
+
+    cache.close();
+    return ok;
+}
+
+async function testLocales(logger: Logger): Promise<boolean> {
+    const check = checker(logger, "locales");
+
+    const { cache, sunMoonData } = localData(logger, "locales");
+    const sunMoonJson = await sunMoonData.getSunMoonData("42.4", "-71.6", "", "America/New_York", "", new Date("2021-09-01T22:00:00Z"));
+    if (sunMoonJson === null) {
+        return check("Onset data", false);
+    }
+
+    const theme = getTheme("light");
+    const layout = getDialLayout(theme, 1920, 1080, false);
+    const model = (options: {locale?: string, hour12?: boolean}) => getDialModel(sunMoonJson, "Onset, MA", "42.4", theme, layout, logger, true, resolveImageOptions(options).locale);
+
+    const english = model({});
+    let ok = check("English is the default", english.title === "Sun & Moon Times for Onset, MA" && english.dateText === "Wednesday, September 1, 2021 EDT" &&
+        english.clockText === "6:00 PM" && english.majorTimeTexts.noon === "12 PM");
+
+    const german = model({locale: "de"});
+    ok = check("German labels, date and 24 hour time", german.title === "Sonne und Mond in Onset, MA" && german.dateText === "Mittwoch, 1. September 2021 EDT" &&
+        german.clockText === "18:00" && german.majorTimeTexts.midnight === "00:00" && german.sunLabels[0].label === "Sonnenaufgang") && ok;
+
+    const french = model({locale: "fr", hour12: true});
+    ok = check("hour12 overrides the locale", french.dateText === "mercredi 1 septembre 2021 EDT" && french.clockText === "6:00 PM" && french.majorTimeTexts.sixPm === "6 PM") && ok;
+
+    const spanish = model({locale: "es"});
+    ok = check("Phase names are translated", Object.values(getLocale("es").phases).includes(spanish.moonPhaseText) && spanish.moonPhaseText !== english.moonPhaseText && getPhaseName(getLocale("de"), "WANING_GIBBOUS") === "Abnehmender Mond" &&
+        getPhaseName(getLocale("fr"), "Waning Gibbus") === "Gibbeuse décroissante") && ok;
+
+    ok = check("Other formatting stays English", moment.utc("2021-09-01").format("dddd MMMM") === "Wednesday September" && formatTime("18:11", logger) === "6:11 PM" &&
+        moment.locale() === "en") && ok;
+
+    let rejected = 0;
+    for (const locale of ["xx", "missing-locale.json", "toString", "constructor", {...getLocale("en"), labels: {...getLocale("en").labels, sunrise: undefined as unknown as string}}, {...getLocale("en"), dateLocale: "tlh"}]) {
+        try {
+            getLocale(locale);
+        } catch (e) {
+            rejected += (e instanceof LocaleError) ? 1 : 0;
+        }
+    }
+    ok = check("Unknown and incomplete locales are rejected", rejected === 6 && getPhaseName(getLocale("en"), "constructor") === "constructor") && ok;
+
+    cache.close();
+    return ok;
+}
+
+async function testFonts(logger: Logger): Promise<boolean> {
+    const check = checker(logger, "fonts");
+
+    const { cache, sunMoonData } = localData(logger, "fonts");
+    const sunMoonJson = await sunMoonData.getSunMoonData("42.4", "-71.6", "", "America/New_York", "2021-09-01");
+    if (sunMoonJson === null) {
+        return check("Onset data", false);
+    }
+
+    const sunMoonImage = new SunMoonImage(logger, cache);
+    const render = async (options: ImageOptions): Promise<unknown> => {
+        try {
+            return (await sunMoonImage.renderImage("Onset, MA", "42.4", sunMoonJson, {width: 400, height: 240, ...options})).imageData !== null;
+        } catch (e) {
+            return e;
+        }
+    };
+
+    // As a dependency the current directory is the consumer's project, not this package
+    const cwd = process.cwd();
+    process.chdir(os.tmpdir());
+    let rendered: unknown;
+    try {
+        rendered = await render({});
+    } finally {
+        process.chdir(cwd);
+    }
+    let ok = check("Bundled fonts load from any directory", rendered === true);
+
+    const replaced = await render({fonts: {"OpenSans-Bold": path.join("fonts", "alata-regular.ttf"), "OpenSans-Regular": fs.readFileSync(path.join("fonts", "alata-regular.ttf"))}});
+    ok = check("Bundled fonts can be replaced by a path or a buffer", replaced === true) && ok;
+
+    const missingFile = await render({fonts: {"OpenSans-Bold": "no-such-font.ttf"}});
+    ok = check("A missing font file is a FontError", missingFile instanceof FontError && missingFile.family === "OpenSans-Bold") && ok;
+
+    const notAFont = await render({fonts: {"OpenSans-Regular": Buffer.from("not a font")}});
+    ok = check("A buffer that is not a font is a FontError", notAFont instanceof FontError) && ok;
+
+    const unknownFamily = await render({theme: {...getTheme("dark"), fonts: {...getTheme("dark").fonts, textFontFamily: "NoSuchFamily"}}});
+    ok = check("A family that is not bundled or given is a FontError", unknownFamily instanceof FontError && unknownFamily.family === "NoSuchFamily") && ok;
+
+    let inherited = 0;
+    for (const family of ["toString", "constructor"]) {
+        const result = await render({theme: {...getTheme("dark"), fonts: {...getTheme("dark").fonts, titleFontFamily: family}}});
+        inherited += (result instanceof FontError && result.family === family) ? 1 : 0;
+    }
+    ok = check("Object.prototype keys are not fonts", inherited === 2) && ok;
+
+    ok = check("The bundled fonts are used again after an error", await render({}) === true) && ok;
+
+    cache.close();
+    return ok;
+}
+
+/**
+ * Mock api.ipgeolocation.io that replies with each status in turn for a key, then with data
+ *   "flaky":  503, then 429 with Retry-After: 1, then the data
+ *   "bad":    401
+ *   "slow":   503 after 300ms
+ *   others:   the data
+ */
+async function startMockApi(requests: Map<string, number>): Promise<{server: http.Server, port: number}> {
+    const server = http.createServer((req, res) => {
+        const params = new URL(req.url ?? "/", "http://localhost").searchParams;
+        const key = params.get("apiKey") ?? "";
+        const count = (requests.get(key) ?? 0) + 1;
+        requests.set(key, count);
+
+        res.setHeader("Content-Type", "application/json");
+        if (key === "bad") {
+            res.statusCode = 401;
+            res.end(JSON.stringify({message: "Provided API key is not valid"}));
+        } else if (key === "slow") {
+            setTimeout(() => {
+                res.statusCode = 503;
+                res.end("{}");
+            }, 300);
+        } else if (key === "flaky" && count === 1) {
+            res.statusCode = 503;
+            res.end("{}");
+        } else if (key === "flaky" && count === 2) {
+            res.statusCode = 429;
+            res.setHeader("Retry-After", "1");
+            res.end(JSON.stringify({message: "Too many requests"}));
+        } else {
+            // The times are for the location's zone, America/New_York, unless time_zone asks for another
+            const zone = params.get("time_zone") ?? "America/New_York";
+            const inZone = (time: string): string => moment.tz(`2021-09-01 ${time}`, "America/New_York").tz(zone).format("HH:mm");
+            res.end(JSON.stringify({date: "2021-09-01", current_time: `${inZone("12:00")}:00.000`, sunrise: inZone("06:11"), sunset: inZone("19:19"), solar_noon: inZone("12:45"),
+                moonrise: inZone("00:19"), moonset: inZone("16:19")}));
+        }
+    });
+    const port = await new Promise<number>((resolve) => server.listen(0, "127.0.0.1", () => resolve((server.address() as {port: number}).port)));
+    return {server, port};
+}
+
+async function testRetries(logger: Logger): Promise<boolean> {
+    const requests = new Map<string, number>();
+    const { server, port } = await startMockApi(requests);
+    const options = {baseUrl: `http://127.0.0.1:${port}`, baseDelayMs: 50};
+
+    const check = checker(logger, "retries");
+    const getError = async (provider: IpGeolocationProvider): Promise<unknown> => provider.getSunMoonJson("42.4", "-71.6", "America/New_York", "2021-09-01").then(() => null, (e) => e);
+
+    let ok = true;
+    try {
+        const flaky = await new IpGeolocationProvider(logger, "flaky", 5000, options).getSunMoonJson("42.4", "-71.6", "America/New_York", "2021-09-01");
+        ok = check("503 and 429 are retried", flaky?.sunrise === "06:11" && requests.get("flaky") === 3) && ok;
+
+        const pacific = await new IpGeolocationProvider(logger, "pacific", 5000, options).getSunMoonJson("42.4", "-71.6", "America/Los_Angeles", "2021-09-01");
+        ok = check("Times are in the requested zone, not the location's", pacific?.sunrise === "03:11" && pacific.sunset === "16:19" && pacific.current_time === "09:00:00.000") && ok;
+
+        const authError = await getError(new IpGeolocationProvider(logger, "bad", 5000, options));
+        ok = check("401 is an ApiAuthError and not retried", authError instanceof ApiAuthError && requests.get("bad") === 1) && ok;
+
+        // The local calculation is only a fallback when there is a key, so it is marked stale
+        const cache = new Kache(logger, "retries", {backend: new MemoryKacheBackend()});
+        const fallback = await new SunMoonData(logger, cache, [new IpGeolocationProvider(logger, "bad", 5000, options)]).getSunMoonData("42.4", "-71.6", "", "America/New_York", "2021-09-01");
+        const local = await new SunMoonData(logger, cache).getSunMoonData("42.4", "-71.6", "", "America/New_York", "2021-09-02");
+        ok = check("Local data after an API failure is stale, without a key it is not", fallback?.stale === true && fallback.provider === "local" && local !== null && local.stale !== true) && ok;
+        cache.close();
+
+        // The chain gives up on the slow provider and aborts it, so it does not keep retrying against the budget
+        const slow = await new AstronomyProviderChain(logger, [new IpGeolocationProvider(logger, "slow", 5000, options)], 100).getSunMoonJson("42.4", "-71.6", "America/New_York", "2021-09-01");
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        ok = check("A timed out provider is aborted and not retried", slow === null && requests.get("slow") === 1) && ok;
+
+        const budgeted = new IpGeolocationProvider(logger, "budget", 5000, {...options, budget: 2});
+        await budgeted.getSunMoonJson("42.4", "-71.6", "America/New_York", "2021-09-01");
+        await budgeted.getSunMoonJson("42.4", "-71.6", "America/New_York", "2021-09-02");
+        const quotaError = await getError(budgeted);
+        ok = check("Used up budget is an ApiQuotaError without a request", quotaError instanceof ApiQuotaError && requests.get("budget") === 2) && ok;
+    } finally {
+        server.close();
+    }
+    return ok;
+}
+
 run();
\ No newline at end of file